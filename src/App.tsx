@@ -2,183 +2,128 @@
 
 import { useState } from "react";
 import { motion, AnimatePresence } from "framer-motion";
+import { useACL } from "./hooks/useACL";
+import { loadStoredSession, useSession } from "./hooks/useSession";
+import { useUserDecryption } from "./hooks/useUserDecryption";
+import { useEventSounds } from "./hooks/useAudio";
+import { FHE_TYPES, ciphertextsAt, initialACLState, describeAddress, encodeValue, formatCiphertext } from "./acl";
+import type { ActorKind, FheType } from "./acl";
+import { ActorSelect } from "./componenets/ActorSelect";
+import { AddressBook } from "./componenets/AddressBook";
+import { GrantPanel } from "./componenets/GrantPanel";
+import { ComputePanel } from "./componenets/ComputePanel";
+import { CallStackPanel } from "./componenets/CallStackPanel";
+import { ScenarioRunner } from "./componenets/ScenarioRunner";
+import { ChallengePanel } from "./componenets/ChallengePanel";
+import { LogImporter } from "./componenets/LogImporter";
+import { EventLog } from "./componenets/EventLog";
+import { TimelinePanel } from "./componenets/TimelinePanel";
+import { ArchitectureView } from "./componenets/ArchitectureView";
+import { AudioControls } from "./componenets/AudioControls";
+import { MotionControls } from "./componenets/MotionControls";
+import { EventAnnouncer } from "./componenets/EventAnnouncer";
+import { TourGuide } from "./componenets/TourGuide";
+import { useTour } from "./hooks/useTour";
+import { builtInTours } from "./tours";
+import { PermissionMatrix } from "./componenets/PermissionMatrix";
+import { FindingsPanel } from "./componenets/FindingsPanel";
+import { DecryptionPanel } from "./componenets/DecryptionPanel";
+import { KMSPanel } from "./componenets/KMSPanel";
+import { SolidityPane } from "./componenets/SolidityPane";
 import './App.css';
 
-// ============================================================================
-// Zama ACL Simulation
-// ============================================================================
-
-interface Ciphertext {
-  id: string;
-  data: string;
-  owner: string;
-  permanentACL: string[];
-  transientACL: string[];
-  isPublic: boolean;
-}
-
-interface ACLEvent {
-  timestamp: string;
-  type: "allow" | "allowTransient" | "makePublic" | "decrypt_attempt" | "decrypt_success" | "decrypt_denied";
-  ciphertext: string;
-  actor: string;
-  details: string;
-}
-
-// Simulate Zama FHE library ACL functions
-const FHELibrary = {
-  allow: (cipher: Ciphertext, addr: string): Ciphertext => ({
-    ...cipher,
-    permanentACL: [...new Set([...cipher.permanentACL, addr])],
-  }),
-
-  allowTransient: (cipher: Ciphertext, addr: string): Ciphertext => ({
-    ...cipher,
-    transientACL: [...new Set([...cipher.transientACL, addr])],
-  }),
-
-  allowThis: (cipher: Ciphertext, contractAddr: string): Ciphertext =>
-    FHELibrary.allow(cipher, contractAddr),
-
-  makePubliclyDecryptable: (cipher: Ciphertext): Ciphertext => ({
-    ...cipher,
-    isPublic: true,
-  }),
-
-  isSenderAllowed: (cipher: Ciphertext, sender: string): boolean =>
-    cipher.permanentACL.includes(sender) || cipher.transientACL.includes(sender),
-
-  isAllowed: (cipher: Ciphertext, addr: string): boolean =>
-    cipher.permanentACL.includes(addr) || cipher.transientACL.includes(addr),
-};
-
 // ============================================================================
 // Main App Component
 // ============================================================================
 
 export default function App() {
   const [stage, setStage] = useState("landing");
-  const [role, setRole] = useState("User");
-  const [ciphertexts, setCiphertexts] = useState<Ciphertext[]>([]);
-  const [events, setEvents] = useState<ACLEvent[]>([]);
-  const [selectedCipher, setSelectedCipher] = useState<string | null>(null);
+  const [owner, setOwner] = useState("");
+  const [contract, setContract] = useState("");
+  const [fheType, setFheType] = useState<FheType>("euint64");
+  const [plaintext, setPlaintext] = useState("1000");
+  // Read once: the session left behind by the previous visit, if any
+  const [storedSession] = useState(loadStoredSession);
+  const [selectedCipher, setSelectedCipher] = useState<string | null>(storedSession?.selectedCipher ?? null);
   const [showTutorial, setShowTutorial] = useState(true);
-  const addEvent = (event: ACLEvent) => {
-    setEvents((prev) => [event, ...prev.slice(0, 19)]);
-  };
-
-  const createCiphertext = () => {
-    const newCipher: Ciphertext = {
-      id: `ct_${Math.random().toString(36).substring(7)}`,
-      data: "balance: 1000",
-      owner: "0x1234...Alice",
-      permanentACL: [],
-      transientACL: [],
-      isPublic: false,
-    };
-
-    setCiphertexts((prev) => [...prev, newCipher]);
-    addEvent({
-      timestamp: new Date().toLocaleTimeString(),
-      type: "allow",
-      ciphertext: newCipher.id,
-      actor: "Contract",
-      details: `Ciphertext created: ${newCipher.id}`,
-    });
-
-    const withPermissions = FHELibrary.allow(
-      FHELibrary.allowThis(newCipher, "0x5678...Contract"),
-      "0x1234...Alice"
-    );
-
-    setCiphertexts((prev) =>
-      prev.map((c) => (c.id === newCipher.id ? withPermissions : c))
-    );
-
-    addEvent({
-      timestamp: new Date().toLocaleTimeString(),
-      type: "allow",
-      ciphertext: newCipher.id,
-      actor: "FHE.allow()",
-      details: `Granted to Alice (owner) & Contract (allowThis)`,
-    });
+  const [shareStatus, setShareStatus] = useState<string | null>(null);
+  // Event whose resulting state is on screen; null follows the live state
+  const [viewSeq, setViewSeq] = useState<number | null>(null);
+  const {
+    state,
+    execute,
+    actors,
+    ciphertexts,
+    events,
+    tx,
+    calls,
+    kms,
+    permissionModel,
+    block,
+    createCiphertext,
+    compute,
+    allow,
+    allowThis,
+    allowTransient,
+    revoke,
+    setPermissionModel,
+    advanceClock,
+    configureKMS,
+    setGuardianStatus,
+    makePublic,
+    publicDecrypt,
+    checkSender,
+    callContract,
+    returnCall,
+    beginTransaction,
+    commitTransaction,
+    revertTransaction,
+    addActor,
+    updateActor,
+    removeActor,
+    loadState,
+  } = useACL(storedSession?.state);
+
+  const userDecryption = useUserDecryption(state, execute);
+  useEventSounds(events);
+  const tourEngine = useTour(builtInTours, { state, selectedCipher });
+
+  const session = useSession(state, selectedCipher, (restored) => {
+    loadState(restored.state);
+    setSelectedCipher(restored.selectedCipher);
+    setViewSeq(null);
+  });
+
+  const shareSession = async () => {
+    const { url, copied } = await session.share();
+    const size = `${(url.length / 1024).toFixed(1)} KB`;
+    setShareStatus(copied ? `Link copied (${size})` : `Link is in the address bar (${size})`);
   };
 
-  const grantTransientAccess = (cipherId: string) => {
-    setCiphertexts((prev) =>
-      prev.map((c) => {
-        if (c.id === cipherId) {
-          const updated = FHELibrary.allowTransient(c, "0x9999...Gateway");
-          addEvent({
-            timestamp: new Date().toLocaleTimeString(),
-            type: "allowTransient",
-            ciphertext: cipherId,
-            actor: "FHE.allowTransient()",
-            details: `Granted transient access to Gateway (EIP-1153 transient storage)`,
-          });
-          return updated;
-        }
-        return c;
-      })
-    );
+  const resetSession = () => {
+    session.clear();
+    loadState(initialACLState);
+    setSelectedCipher(null);
+    setViewSeq(null);
+    setShareStatus(null);
   };
 
-  const makePublic = (cipherId: string) => {
-    setCiphertexts((prev) =>
-      prev.map((c) => {
-        if (c.id === cipherId) {
-          const updated = FHELibrary.makePubliclyDecryptable(c);
-          addEvent({
-            timestamp: new Date().toLocaleTimeString(),
-            type: "makePublic",
-            ciphertext: cipherId,
-            actor: "FHE.makePubliclyDecryptable()",
-            details: `Ciphertext is now publicly decryptable off-chain`,
-          });
-          return updated;
-        }
-        return c;
-      })
-    );
+  // Falls back to the first matching actor when the chosen one was deleted
+  const pickActor = (address: string, kinds?: ActorKind[]) => {
+    const options = kinds ? actors.filter((a) => kinds.includes(a.kind)) : actors;
+    return options.find((a) => a.address === address)?.address ?? options[0]?.address ?? "";
   };
+  const ownerAddress = pickActor(owner, ["eoa"]);
+  const contractAddress = pickActor(contract, ["contract"]);
+  const encoded = encodeValue(fheType, plaintext);
 
-  const attemptDecryption = (cipherId: string) => {
-    const cipher = ciphertexts.find((c) => c.id === cipherId);
-    if (!cipher) return;
-
-    const isAllowed = FHELibrary.isAllowed(cipher, role) || cipher.isPublic;
-
-    addEvent({
-      timestamp: new Date().toLocaleTimeString(),
-      type: "decrypt_attempt",
-      ciphertext: cipherId,
-      actor: role,
-      details: `Decryption request by ${role}`,
-    });
-
-    if (isAllowed) {
-      addEvent({
-        timestamp: new Date().toLocaleTimeString(),
-        type: "decrypt_success",
-        ciphertext: cipherId,
-        actor: "KMS/Coprocessor",
-        details: `✓ ACL check passed. Decryption authorized. Result: ${cipher.data}`,
-      });
-    } else {
-      addEvent({
-        timestamp: new Date().toLocaleTimeString(),
-        type: "decrypt_denied",
-        ciphertext: cipherId,
-        actor: "KMS/Gateway",
-        details: `✗ ACL check failed. ${role} not authorized.`,
-      });
-    }
-  };
-
-  const selectedCipherData = ciphertexts.find((c) => c.id === selectedCipher);
+  const timeTravelling = viewSeq !== null;
+  const shownCiphertexts = timeTravelling ? ciphertextsAt(events, viewSeq) : ciphertexts;
+  const selectedCipherData = shownCiphertexts.find((c) => c.id === selectedCipher);
 
   return (
     <div className="">
+      <EventAnnouncer events={events} />
       <AnimatePresence mode="wait">
         {stage === "landing" ? (
           <motion.div key="landing" initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }}>
@@ -247,116 +192,43 @@ export default function App() {
                 <p className="">
                   (Interactive ciphertext & permission management)
                 </p>
+                <div className="ml-auto flex items-center gap-2">
+                  {shareStatus && <span className="text-xs text-green-300">{shareStatus}</span>}
+                  <MotionControls />
+                  <AudioControls />
+                  <motion.button
+                    onClick={shareSession}
+                    className="px-3 py-1 bg-slate-800 hover:bg-slate-700 border border-yellow-500/40 rounded text-sm text-yellow-300"
+                    whileHover={{ scale: 1.05 }}
+                    whileTap={{ scale: 0.95 }}
+                  >
+                    🔗 Share
+                  </motion.button>
+                  <motion.button
+                    onClick={resetSession}
+                    className="px-3 py-1 bg-slate-800 hover:bg-slate-700 border border-slate-600 rounded text-sm text-slate-300"
+                    whileHover={{ scale: 1.05 }}
+                    whileTap={{ scale: 0.95 }}
+                  >
+                    New Session
+                  </motion.button>
+                </div>
                 </div>
               </motion.header>
 
               {/* Tutorial Guide */}
               {showTutorial && (
-                <motion.div 
-                  className="mb-8 p-6 border-2 border-yellow-400/50 rounded-lg"
-                  initial={{ y: -20, opacity: 0 }}
-                  animate={{ y: 0, opacity: 1 }}
-                  transition={{ duration: 0.5, delay: 0.1 }}
-                >
-                  <div className="flex items-start justify-between mb-4">
-                    <h3 className="text-xl font-bold text-red-400">📖 How to Use This Demo</h3>
-                    <motion.button
-                      onClick={() => setShowTutorial(false)}
-                      className="text-yellow-400 hover:text-red-300 font-bold"
-                      whileHover={{ scale: 1.2 }}
-                    >
-                      ✕
-                    </motion.button>
-                  </div>
-
-                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
-                    {/* Step 1 */}
-                    <motion.div 
-                      className="p-4 bg-black rounded border-l-4 border-green-500"
-                      initial={{ x: -20, opacity: 0 }}
-                      animate={{ x: 0, opacity: 1 }}
-                      transition={{ delay: 0.2 }}
-                    >
-                      <div className="flex items-center gap-2 mb-2">
-                        <div className="w-6 h-6 bg-green-500 rounded-full flex items-center justify-center text-xs font-bold text-slate-900">1</div>
-                        <h4 className="font-semibold text-green-400">Create Ciphertext</h4>
-                      </div>
-                      <p className="text-slate-300 text-xs">
-                        Click <span className="text-green-400 font-semibold">"+ Create Ciphertext"</span> to generate an encrypted value. 
-                        This simulates creating an encrypted balance in Solidity using FHE.
-                      </p>
-                    </motion.div>
-
-                    {/* Step 2 */}
-                    <motion.div 
-                      className="p-4 bg-black rounded border-l-4 border-blue-500"
-                      initial={{ x: -20, opacity: 0 }}
-                      animate={{ x: 0, opacity: 1 }}
-                      transition={{ delay: 0.3 }}
-                    >
-                      <div className="flex items-center gap-2 mb-2">
-                        <div className="w-6 h-6 bg-blue-500 rounded-full flex items-center justify-center text-xs font-bold text-slate-900">2</div>
-                        <h4 className="font-semibold text-blue-400">Select Ciphertext</h4>
-                      </div>
-                      <p className="text-slate-300 text-xs">
-                        Click on a ciphertext in the list. Its details appear below showing who has permission to access it.
-                      </p>
-                    </motion.div>
-
-                    {/* Step 3 */}
-                    <motion.div 
-                      className="p-4 bg-black rounded border-l-4 border-cyan-500"
-                      initial={{ x: -20, opacity: 0 }}
-                      animate={{ x: 0, opacity: 1 }}
-                      transition={{ delay: 0.4 }}
-                    >
-                      <div className="flex items-center gap-2 mb-2">
-                        <div className="w-6 h-6 bg-cyan-500 rounded-full flex items-center justify-center text-xs font-bold text-slate-900">3</div>
-                        <h4 className="font-semibold text-cyan-400">Grant ACL Permissions</h4>
-                      </div>
-                      <p className="text-slate-300 text-xs">
-                        Use two buttons to add permissions:
-                        <br/><span className="text-blue-300">• Transient:</span> Temporary access (expires this transaction)
-                        <br/><span className="text-purple-300">• Public:</span> Anyone can decrypt off-chain
-                      </p>
-                    </motion.div>
+                <TourGuide
+                  tours={builtInTours}
+                  engine={tourEngine}
+                  refresh={`${events[0]?.seq}:${selectedCipher}`}
+                  onClose={() => setShowTutorial(false)}
+                />
+              )}
 
-                    {/* Step 4 */}
-                    <motion.div 
-                      className="p-4 bg-black rounded border-l-4 border-yellow-500"
-                      initial={{ x: -20, opacity: 0 }}
-                      animate={{ x: 0, opacity: 1 }}
-                      transition={{ delay: 0.5 }}
-                    >
-                      <div className="flex items-center gap-2 mb-2">
-                        <div className="w-6 h-6 bg-yellow-500 rounded-full flex items-center justify-center text-xs font-bold text-slate-900">4</div>
-                        <h4 className="font-semibold text-yellow-400">Test Decryption</h4>
-                      </div>
-                      <p className="text-slate-300 text-xs">
-                        Select a role from the dropdown (Alice, Contract, Gateway, or Unauthorized). Click <span className="text-yellow-400 font-semibold">"Request Decryption"</span> to test if that role can decrypt.
-                        The KMS checks ACL permissions!
-                      </p>
-                    </motion.div>
-                  </div>
+              <TimelinePanel events={events} actors={actors} seq={viewSeq} onChange={setViewSeq} />
 
-                  {/* Key Concepts */}
-                  <motion.div 
-                    className="mt-4 p-4 bg-black rounded border-l-4 border-purple-500"
-                    initial={{ x: -20, opacity: 0 }}
-                    animate={{ x: 0, opacity: 1 }}
-                    transition={{ delay: 0.6 }}
-                  >
-                    <h4 className="font-semibold text-purple-400 mb-2">🔐 Key Zama Concepts:</h4>
-                    <ul className="text-xs text-slate-300 space-y-1">
-                      <li><span className="text-yellow-400">FHE.allow():</span> Grants permanent access to an address</li>
-                      <li><span className="text-blue-400">FHE.allowTransient():</span> Grants temporary access (EIP-1153, gas efficient)</li>
-                      <li><span className="text-green-400">FHE.makePubliclyDecryptable():</span> Makes result publicly readable off-chain</li>
-                      <li><span className="text-cyan-400">FHE.isSenderAllowed():</span> Checks if sender has permission before allowing operation</li>
-                      <li><span className="text-pink-400">Ciphertext Handle:</span> An encrypted value that can only be decrypted if ACL permits</li>
-                    </ul>
-                  </motion.div>
-                </motion.div>
-              )}
+              <ArchitectureView events={events} kms={kms} />
 
               <div className="grid grid-cols-3 gap-6">
                 {/* Main Controls Panel */}
@@ -366,36 +238,164 @@ export default function App() {
                   animate={{ x: 0, opacity: 1 }}
                   transition={{ duration: 0.5, delay: 0.1 }}
                 >
+                  <ScenarioRunner
+                    onState={(next) => {
+                      loadState(next);
+                      setViewSeq(null);
+                    }}
+                  />
+
+                  <ChallengePanel
+                    state={state}
+                    onState={(next) => {
+                      loadState(next);
+                      setSelectedCipher(null);
+                      setViewSeq(null);
+                    }}
+                  />
+
+                  <LogImporter
+                    actors={state.actors}
+                    onState={(next) => {
+                      loadState(next);
+                      setSelectedCipher(null);
+                      setViewSeq(null);
+                    }}
+                  />
+
                   <motion.div 
                     className="bg-slate-900 border-2 border-yellow-500/50 p-6 rounded-lg mb-6 hover:border-yellow-400/80 transition"
                     whileHover={{ boxShadow: "0 0 20px rgba(250, 204, 21, 0.3)" }}
                   >
                     <h2 className="text-2xl font-bold mb-4 text-yellow-400">Ciphertext Manager</h2>
 
+                    {/* Transaction Controls */}
+                    <motion.div 
+                      data-tour="transaction"
+                      className="mb-6 p-4 bg-slate-800 rounded border border-yellow-500/30"
+                      initial={{ y: 10, opacity: 0 }}
+                      animate={{ y: 0, opacity: 1 }}
+                      transition={{ delay: 0.15 }}
+                    >
+                      <h3 className="font-semibold mb-3 text-yellow-300">
+                        Transaction:{" "}
+                        <span className={`font-mono ${tx ? "text-green-400" : "text-slate-400"}`}>
+                          {tx ? tx.id : "none (each call is its own tx)"}
+                        </span>
+                      </h3>
+                      <div className="flex gap-2">
+                        <motion.button
+                          onClick={beginTransaction}
+                          disabled={!!tx}
+                          className="flex-1 px-4 py-2 bg-slate-700 hover:bg-slate-600 disabled:opacity-40 border border-yellow-500/30 rounded font-semibold text-sm transition"
+                          whileHover={{ scale: 1.02 }}
+                          whileTap={{ scale: 0.98 }}
+                        >
+                          Begin Tx
+                        </motion.button>
+                        <motion.button
+                          onClick={commitTransaction}
+                          disabled={!tx}
+                          className="flex-1 px-4 py-2 bg-green-700 hover:bg-green-600 disabled:opacity-40 rounded font-semibold text-sm transition"
+                          whileHover={{ scale: 1.02 }}
+                          whileTap={{ scale: 0.98 }}
+                        >
+                          Commit
+                        </motion.button>
+                        <motion.button
+                          onClick={revertTransaction}
+                          disabled={!tx}
+                          className="flex-1 px-4 py-2 bg-red-700 hover:bg-red-600 disabled:opacity-40 rounded font-semibold text-sm transition"
+                          whileHover={{ scale: 1.02 }}
+                          whileTap={{ scale: 0.98 }}
+                        >
+                          Revert
+                        </motion.button>
+                      </div>
+                      <p className="text-xs text-yellow-200/60 mt-2">
+                        Transient grants are wiped when the tx ends. Revert also rolls back permanent grants.
+                      </p>
+                      <div className="flex items-center gap-2 mt-3 pt-3 border-t border-yellow-500/20 text-sm">
+                        <span className="text-yellow-200">
+                          Clock: <span className="font-mono text-yellow-300">block #{block}</span>
+                        </span>
+                        {[1, 10, 100].map((blocks) => (
+                          <button
+                            key={blocks}
+                            onClick={() => advanceClock(blocks)}
+                            disabled={!!tx}
+                            title={tx ? "Blocks are mined between transactions" : `Mine ${blocks} block${blocks === 1 ? "" : "s"}`}
+                            className="px-2 py-1 bg-slate-700 hover:bg-slate-600 disabled:opacity-40 border border-yellow-500/30 rounded text-xs font-semibold"
+                          >
+                            +{blocks}
+                          </button>
+                        ))}
+                        <span className="text-xs text-yellow-200/60">Time-limited grants are revoked once their block is reached.</span>
+                      </div>
+                    </motion.div>
+
                     {/* Create Ciphertext */}
                     <motion.div 
+                      data-tour="create-ciphertext"
                       className="mb-6 p-4 bg-slate-800 rounded border border-yellow-500/30"
                       initial={{ y: 10, opacity: 0 }}
                       animate={{ y: 0, opacity: 1 }}
                       transition={{ delay: 0.2 }}
                     >
                       <h3 className="font-semibold mb-3 text-yellow-300">1. Create Encrypted Value</h3>
+                      <div className="grid grid-cols-2 gap-3 mb-3 text-left">
+                        <label className="text-sm text-yellow-200">
+                          Owner:
+                          <ActorSelect actors={actors} value={ownerAddress} onChange={setOwner} kinds={["eoa"]} />
+                        </label>
+                        <label className="text-sm text-yellow-200">
+                          Contract (allowThis):
+                          <ActorSelect actors={actors} value={contractAddress} onChange={setContract} kinds={["contract"]} />
+                        </label>
+                        <label className="text-sm text-yellow-200">
+                          Type:
+                          <select
+                            value={fheType}
+                            onChange={(e) => setFheType(e.target.value as FheType)}
+                            className="w-full mt-1 px-3 py-2 bg-slate-700 border border-yellow-500/30 rounded text-white text-sm focus:outline-none focus:border-yellow-400"
+                          >
+                            {FHE_TYPES.map((t) => (
+                              <option key={t}>{t}</option>
+                            ))}
+                          </select>
+                        </label>
+                        <label className="text-sm text-yellow-200">
+                          Plaintext value:
+                          <input
+                            value={plaintext}
+                            onChange={(e) => setPlaintext(e.target.value)}
+                            aria-invalid={encoded === null}
+                            className={`w-full mt-1 px-3 py-2 bg-slate-700 border rounded text-white text-sm font-mono focus:outline-none ${
+                              encoded === null ? "border-red-400" : "border-yellow-500/30 focus:border-yellow-400"
+                            }`}
+                          />
+                        </label>
+                      </div>
                       <motion.button
-                        onClick={createCiphertext}
-                        className="px-4 py-2 bg-gradient-to-r from-green-500 to-emerald-600 hover:from-green-400 hover:to-emerald-500 rounded font-semibold transition"
+                        onClick={() => encoded !== null && createCiphertext(fheType, encoded, ownerAddress, contractAddress)}
+                        disabled={!ownerAddress || !contractAddress || encoded === null}
+                        className="px-4 py-2 bg-gradient-to-r from-green-500 to-emerald-600 hover:from-green-400 hover:to-emerald-500 disabled:from-slate-600 disabled:to-slate-600 rounded font-semibold transition"
                         whileHover={{ scale: 1.05 }}
                         whileTap={{ scale: 0.95 }}
                       >
                         + Create Ciphertext
                       </motion.button>
                       <p className="text-xs text-yellow-200/60 mt-2">
-                        Creates a new encrypted value with default ACL (owner + contract)
+                        {encoded === null
+                          ? `Not a valid ${fheType} value`
+                          : "Creates a new encrypted value with default ACL (owner + contract)"}
                       </p>
                     </motion.div>
 
                     {/* Ciphertext List */}
-                    {ciphertexts.length > 0 && (
+                    {shownCiphertexts.length > 0 && (
                       <motion.div 
+                        data-tour="ciphertext-list"
                         className="mb-6 p-4 bg-slate-800 rounded border border-yellow-500/30"
                         initial={{ y: 10, opacity: 0 }}
                         animate={{ y: 0, opacity: 1 }}
@@ -403,10 +403,11 @@ export default function App() {
                       >
                         <h3 className="font-semibold mb-3 text-yellow-300">2. Select & Manage Ciphertext</h3>
                         <div className="space-y-2 max-h-40 overflow-y-auto">
-                          {ciphertexts.map((ct, idx) => (
+                          {shownCiphertexts.map((ct, idx) => (
                             <motion.button
                               key={ct.id}
                               onClick={() => setSelectedCipher(ct.id)}
+                              aria-pressed={selectedCipher === ct.id}
                               className={`w-full text-left px-3 py-2 rounded text-sm transition ${
                                 selectedCipher === ct.id
                                   ? "bg-yellow-500/30 border border-yellow-400"
@@ -418,7 +419,9 @@ export default function App() {
                               whileHover={{ x: 5 }}
                             >
                               <span className="font-mono text-yellow-300">{ct.id}</span>
+                              <span className="text-xs ml-2 text-slate-400 font-mono">{ct.fheType}</span>
                               <span className="text-xs ml-2 text-slate-300">
+                                {ct.plaintextUnknown ? "❔ unknown " : ""}
                                 {ct.isPublic ? "🌐 Public" : ""} ACL: {ct.permanentACL.length + ct.transientACL.length}
                               </span>
                             </motion.button>
@@ -427,75 +430,65 @@ export default function App() {
                       </motion.div>
                     )}
 
+                    {timeTravelling && (
+                      <p className="mb-6 p-3 bg-orange-900/30 border border-orange-400/50 rounded text-sm text-orange-200">
+                        ⏪ Showing the state after event #{viewSeq}. Return to live to make new ACL calls.
+                      </p>
+                    )}
+
                     {/* ACL Controls */}
-                    {selectedCipherData && (
-                      <motion.div 
-                        className="mb-6 p-4 bg-slate-800 rounded border border-yellow-500/30"
-                        initial={{ y: 10, opacity: 0 }}
-                        animate={{ y: 0, opacity: 1 }}
-                        transition={{ delay: 0.4 }}
-                      >
-                        <h3 className="font-semibold mb-3 text-yellow-300">3. Grant ACL Permissions</h3>
-                        <div className="space-y-2">
-                          <motion.button
-                            onClick={() => grantTransientAccess(selectedCipherData.id)}
-                            className="w-full px-4 py-2 bg-gradient-to-r from-blue-500 to-cyan-500 hover:from-blue-400 hover:to-cyan-400 rounded font-semibold text-sm transition"
-                            whileHover={{ scale: 1.02 }}
-                            whileTap={{ scale: 0.98 }}
-                          >
-                            FHE.allowTransient() — Temporary Access
-                          </motion.button>
-                          <motion.button
-                            onClick={() => makePublic(selectedCipherData.id)}
-                            className="w-full px-4 py-2 bg-gradient-to-r from-purple-500 to-pink-500 hover:from-purple-400 hover:to-pink-400 rounded font-semibold text-sm transition"
-                            whileHover={{ scale: 1.02 }}
-                            whileTap={{ scale: 0.98 }}
-                          >
-                            FHE.makePubliclyDecryptable() — Public Access
-                          </motion.button>
-                        </div>
-                        <p className="text-xs text-yellow-200/60 mt-2">
-                          Transient = EIP-1153 (gas efficient). Public = off-chain decryption.
-                        </p>
-                      </motion.div>
+                    {selectedCipherData && !timeTravelling && (
+                      <GrantPanel
+                        cipher={selectedCipherData}
+                        actors={actors}
+                        permissionModel={permissionModel}
+                        block={block}
+                        onAllow={(address, expiresAt, reason) => allow(selectedCipherData.id, address, expiresAt, reason)}
+                        onAllowThis={(contract) => allowThis(selectedCipherData.id, contract)}
+                        onAllowTransient={(address) => allowTransient(selectedCipherData.id, address)}
+                        onRevoke={(address) => revoke(selectedCipherData.id, address)}
+                        onMakePublic={() => makePublic(selectedCipherData.id)}
+                        onPermissionModelChange={setPermissionModel}
+                      />
+                    )}
+
+                    {/* Encrypted Computation */}
+                    {ciphertexts.length > 0 && !timeTravelling && (
+                      <ComputePanel ciphertexts={ciphertexts} actors={actors} onCompute={compute} />
+                    )}
+
+                    {/* Nested Contract Calls */}
+                    {ciphertexts.length > 0 && !timeTravelling && (
+                      <CallStackPanel
+                        actors={actors}
+                        ciphertexts={ciphertexts}
+                        calls={calls}
+                        onCall={callContract}
+                        onReturn={returnCall}
+                        onAllowThis={allowThis}
+                        onCompute={compute}
+                      />
                     )}
 
                     {/* Decryption Test */}
-                    <motion.div 
-                      className="p-4 bg-slate-800 rounded border border-yellow-500/30"
-                      initial={{ y: 10, opacity: 0 }}
-                      animate={{ y: 0, opacity: 1 }}
-                      transition={{ delay: 0.5 }}
-                    >
-                      <h3 className="font-semibold mb-3 text-yellow-300">4. Test Decryption Authorization</h3>
-                      <div className="mb-3">
-                        <label className="text-sm text-yellow-200">Select Role:</label>
-                        <motion.select
-                          value={role}
-                          onChange={(e) => setRole(e.target.value)}
-                          className="w-full mt-1 px-3 py-2 bg-slate-700 border border-yellow-500/30 rounded text-white focus:outline-none focus:border-yellow-400"
-                          whileFocus={{ boxShadow: "0 0 10px rgba(250, 204, 21, 0.5)" }}
-                        >
-                          <option>User</option>
-                          <option>0x1234...Alice</option>
-                          <option>0x5678...Contract</option>
-                          <option>0x9999...Gateway</option>
-                          <option>Unauthorized</option>
-                        </motion.select>
-                      </div>
-                      <motion.button
-                        onClick={() => selectedCipherData && attemptDecryption(selectedCipherData.id)}
-                        disabled={!selectedCipherData}
-                        className="w-full px-4 py-2 bg-gradient-to-r from-yellow-500 to-yellow-600 hover:from-yellow-400 hover:to-yellow-500 disabled:from-slate-600 disabled:to-slate-600 rounded font-semibold transition text-slate-900"
-                        whileHover={{ scale: 1.02 }}
-                        whileTap={{ scale: 0.98 }}
-                      >
-                        Request Decryption
-                      </motion.button>
-                      <p className="text-xs text-yellow-200/60 mt-2">
-                        KMS checks: FHE.isSenderAllowed() or isPublic
-                      </p>
-                    </motion.div>
+                    <DecryptionPanel
+                      cipher={selectedCipherData}
+                      actors={actors}
+                      disabled={timeTravelling}
+                      onUserDecrypt={async (user, contract, signer, validity) =>
+                        selectedCipherData
+                          ? userDecryption.request(selectedCipherData.id, user, contract, signer, validity)
+                          : null
+                      }
+                      onOpen={userDecryption.open}
+                      onPublicDecrypt={(requester) => selectedCipherData && publicDecrypt(selectedCipherData.id, requester)}
+                      onCheckSender={(sender, contract) =>
+                        selectedCipherData && checkSender(selectedCipherData.id, sender, contract)
+                      }
+                    />
+
+                    {/* Key Management */}
+                    <KMSPanel kms={kms} onConfigure={configureKMS} onStatus={setGuardianStatus} />
                   </motion.div>
 
                   {/* Ciphertext Details */}
@@ -513,10 +506,27 @@ export default function App() {
                           <span className="text-slate-400">ID:</span> <span className="text-yellow-300">{selectedCipherData.id}</span>
                         </motion.div>
                         <motion.div initial={{ x: -10 }} animate={{ x: 0 }} transition={{ delay: 0.1 }}>
-                          <span className="text-slate-400">Data:</span> <span className="text-yellow-300">{selectedCipherData.data}</span>
+                          <span className="text-slate-400">Data:</span>{" "}
+                          <span className="text-yellow-300" title={selectedCipherData.data}>
+                            {formatCiphertext(selectedCipherData)}
+                          </span>
+                          <span className="block text-xs text-slate-500">Paillier-encrypted; only the KMS can decrypt it</span>
+                          {selectedCipherData.plaintextUnknown && (
+                            <span className="block text-xs text-orange-300">
+                              Plaintext: unknown (imported from an ACL log; decryptions never show a value)
+                            </span>
+                          )}
                         </motion.div>
+                        {selectedCipherData.derivedFrom && (
+                          <motion.div initial={{ x: -10 }} animate={{ x: 0 }} transition={{ delay: 0.15 }}>
+                            <span className="text-slate-400">Derived from:</span>{" "}
+                            <span className="text-teal-300">
+                              FHE.{selectedCipherData.derivedFrom.op}({selectedCipherData.derivedFrom.inputs.join(", ")})
+                            </span>
+                          </motion.div>
+                        )}
                         <motion.div initial={{ x: -10 }} animate={{ x: 0 }} transition={{ delay: 0.2 }}>
-                          <span className="text-slate-400">Owner:</span> <span className="text-yellow-300">{selectedCipherData.owner}</span>
+                          <span className="text-slate-400">Owner:</span> <span className="text-yellow-300">{describeAddress(actors, selectedCipherData.owner)}</span>
                         </motion.div>
                         <motion.div initial={{ x: -10 }} animate={{ x: 0 }} transition={{ delay: 0.3 }}>
                           <span className="text-slate-400">Permanent ACL:</span>
@@ -524,11 +534,26 @@ export default function App() {
                             {selectedCipherData.permanentACL.length === 0 ? (
                               <span className="text-slate-500">None</span>
                             ) : (
-                              selectedCipherData.permanentACL.map((addr, i) => (
-                                <motion.div key={i} initial={{ opacity: 0 }} animate={{ opacity: 1 }} transition={{ delay: i * 0.1 }}>
-                                  {addr}
-                                </motion.div>
-                              ))
+                              selectedCipherData.permanentACL.map((addr, i) => {
+                                const grant = selectedCipherData.grants.find((g) => g.address === addr);
+                                const left = grant?.expiresAt != null ? grant.expiresAt - block : null;
+                                return (
+                                  <motion.div key={i} initial={{ opacity: 0 }} animate={{ opacity: 1 }} transition={{ delay: i * 0.1 }}>
+                                    {describeAddress(actors, addr)}
+                                    {left !== null && (
+                                      <span className={`ml-2 text-xs ${left <= 3 ? "text-orange-300" : "text-slate-400"}`}>
+                                        ⏳ {left > 0 ? `${left} block${left === 1 ? "" : "s"} left` : "expired"} (until #{grant!.expiresAt})
+                                      </span>
+                                    )}
+                                    {grant && grant.grantor !== addr && (
+                                      <span className="block ml-2 text-xs text-slate-500">
+                                        by {describeAddress(actors, grant.grantor)} at #{grant.grantedAt}
+                                        {grant.reason && ` — ${grant.reason}`}
+                                      </span>
+                                    )}
+                                  </motion.div>
+                                );
+                              })
                             )}
                           </div>
                         </motion.div>
@@ -540,7 +565,7 @@ export default function App() {
                             ) : (
                               selectedCipherData.transientACL.map((addr, i) => (
                                 <motion.div key={i} initial={{ opacity: 0 }} animate={{ opacity: 1 }} transition={{ delay: i * 0.1 }}>
-                                  {addr}
+                                  {describeAddress(actors, addr)}
                                 </motion.div>
                               ))
                             )}
@@ -559,64 +584,46 @@ export default function App() {
 
                 {/* Events Panel */}
                 <motion.div 
+                  data-tour="event-log"
                   className="col-span-1"
                   initial={{ x: 20, opacity: 0 }}
                   animate={{ x: 0, opacity: 1 }}
                   transition={{ duration: 0.5, delay: 0.2 }}
                 >
-                  <div className="bg-slate-900 border-2 border-yellow-500/50 p-6 rounded-lg h-[600px] flex flex-col hover:border-yellow-400/80 transition"
-                    style={{
-                      boxShadow: "0 0 15px rgba(250, 204, 21, 0.1)"
-                    }}
-                  >
-                    <h2 className="text-xl font-bold mb-4 text-yellow-400">ACL Events Log</h2>
-                    <div className="flex-1 overflow-auto space-y-2 scrollbar-thin scrollbar-thumb-yellow-500/30 scrollbar-track-slate-800">
-                      {events.length === 0 ? (
-                        <motion.div 
-                          className="text-slate-500 text-sm"
-                          animate={{ opacity: [0.5, 1, 0.5] }}
-                          transition={{ duration: 2, repeat: Infinity }}
-                        >
-                          Waiting for events...
-                        </motion.div>
-                      ) : (
-                        events.map((event, i) => (
-                          <motion.div
-                            key={i}
-                            className={`text-xs p-3 rounded border-l-4 ${
-                              event.type === "decrypt_success"
-                                ? "bg-green-900/30 border-l-green-400 text-green-100"
-                                : event.type === "decrypt_denied"
-                                ? "bg-red-900/30 border-l-red-400 text-red-100"
-                                : event.type === "makePublic"
-                                ? "bg-purple-900/30 border-l-purple-400 text-purple-100"
-                                : event.type === "allowTransient"
-                                ? "bg-blue-900/30 border-l-blue-400 text-blue-100"
-                                : "bg-yellow-900/20 border-l-yellow-400 text-yellow-100"
-                            }`}
-                            initial={{ x: -20, opacity: 0 }}
-                            animate={{ x: 0, opacity: 1 }}
-                            transition={{ duration: 0.3 }}
-                            whileHover={{ x: 5, boxShadow: "0 0 10px rgba(0,0,0,0.3)" }}
-                          >
-                            <div className="font-semibold">[{event.timestamp}]</div>
-                            <div className="text-xs opacity-80">{event.actor}</div>
-                            <motion.div 
-                              className="mt-1"
-                              initial={{ opacity: 0 }}
-                              animate={{ opacity: 1 }}
-                              transition={{ delay: 0.1 }}
-                            >
-                              {event.details}
-                            </motion.div>
-                          </motion.div>
-                        ))
-                      )}
-                    </div>
-                  </div>
+                  <EventLog
+                    events={events}
+                    ciphertexts={ciphertexts.map((c) => c.id)}
+                    selectedSeq={viewSeq}
+                    onSelect={(seq) => setViewSeq(seq === events[0]?.seq ? null : seq)}
+                  />
                 </motion.div>
               </div>
 
+              <PermissionMatrix
+                actors={actors}
+                ciphertexts={shownCiphertexts}
+                events={events}
+                onUserDecrypt={
+                  timeTravelling
+                    ? undefined
+                    : (ciphertext, user, contract, signer) => userDecryption.request(ciphertext, user, contract, signer)
+                }
+                onPublicDecrypt={timeTravelling ? undefined : publicDecrypt}
+              />
+
+              <FindingsPanel
+                state={state}
+                onSelectCiphertext={(id) => {
+                  setSelectedCipher(id);
+                  setViewSeq(null);
+                }}
+                onSelectEvent={(seq) => setViewSeq(seq === events[0]?.seq ? null : seq)}
+              />
+
+              <SolidityPane events={events} actors={actors} />
+
+              <AddressBook actors={actors} onAdd={addActor} onUpdate={updateActor} onRemove={removeActor} />
+
               <motion.footer 
                 className="mt-8 text-center"
                 initial={{ y: 20, opacity: 0 }}
@@ -0,0 +1,49 @@
+// acl/actors.ts — Address book of the actors taking part in the demo
+
+export type ActorKind = "eoa" | "contract" | "gateway" | "kms";
+
+export interface Actor {
+  address: string;
+  name: string;
+  kind: ActorKind;
+}
+
+export const ACTOR_KINDS: { kind: ActorKind; label: string }[] = [
+  { kind: "eoa", label: "EOA" },
+  { kind: "contract", label: "Contract" },
+  { kind: "gateway", label: "Gateway" },
+  { kind: "kms", label: "KMS" },
+];
+
+export const defaultActors: Actor[] = [
+  { address: "0x1234a11ce0000000000000000000000000000001", name: "Alice", kind: "eoa" },
+  { address: "0x1234b0b000000000000000000000000000000002", name: "Bob", kind: "eoa" },
+  { address: "0x5678c0de00000000000000000000000000000003", name: "PrivateToken", kind: "contract" },
+  { address: "0x5678e5c000000000000000000000000000000007", name: "Escrow", kind: "contract" },
+  { address: "0x9999ca7e00000000000000000000000000000004", name: "Gateway", kind: "gateway" },
+  { address: "0x7777ce1100000000000000000000000000000005", name: "KMS", kind: "kms" },
+  { address: "0xbad0bad000000000000000000000000000000006", name: "Mallory", kind: "eoa" },
+];
+
+// A 20-byte hex address, as used by the EVM
+export const isAddress = (value: string): boolean => /^0x[0-9a-fA-F]{40}$/.test(value);
+
+export const randomAddress = (): string => {
+  const bytes = crypto.getRandomValues(new Uint8Array(20));
+  return `0x${Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("")}`;
+};
+
+export const shortAddress = (address: string): string =>
+  isAddress(address) ? `${address.slice(0, 6)}…${address.slice(-4)}` : address;
+
+export const findActor = (actors: Actor[], address: string): Actor | undefined =>
+  actors.find((a) => a.address.toLowerCase() === address.toLowerCase());
+
+// "Alice (0x1234…0001)", or just the short address for unknown actors
+export const describeAddress = (actors: Actor[], address: string): string => {
+  const actor = findActor(actors, address);
+  return actor ? `${actor.name} (${shortAddress(address)})` : shortAddress(address);
+};
+
+export const actorsOfKind = (actors: Actor[], kind: ActorKind): Actor[] =>
+  actors.filter((a) => a.kind === kind);
@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import { transferResultChallenge } from "../challenges/transferResult";
+import { defaultActors } from "./actors";
+import type { Challenge } from "./challenge";
+import { challengeState, gradeChallenge } from "./challenge";
+import { randomEntropy } from "./kms";
+import { aclReducer } from "./reducer";
+import type { ACLAction, ACLState } from "./types";
+
+const alice = "0x1234a11ce0000000000000000000000000000001";
+const bob = "0x1234b0b000000000000000000000000000000002";
+const token = "0x5678c0de00000000000000000000000000000003";
+const gateway = "0x9999ca7e00000000000000000000000000000004";
+
+const play = (state: ACLState, ...actions: ACLAction[]): ACLState =>
+  actions.reduce(
+    (s, action) => aclReducer(s, { ...action, timestamp: "2025-01-01T00:00:00.000Z", entropy: randomEntropy(action) }),
+    state
+  );
+
+describe("gradeChallenge", () => {
+  it("scores nothing for the starting position and everything for a solution", () => {
+    const { state, since } = challengeState(transferResultChallenge, "2025-01-01T00:00:00.000Z");
+    expect(since).toBe(state.events[0].seq);
+    // Only the checks on the final state that already hold
+    expect(gradeChallenge(transferResultChallenge, state, since)).toMatchObject({ score: 30, max: 100 });
+
+    const solved = play(
+      state,
+      { type: "allow", ciphertext: "ct_transfer", address: bob },
+      { type: "beginTx" },
+      { type: "allowTransient", ciphertext: "ct_transfer", address: gateway },
+      { type: "commitTx" },
+      { type: "userDecrypt", ciphertext: "ct_transfer", user: bob, contract: token, signer: bob }
+    );
+    const grade = gradeChallenge(transferResultChallenge, solved, since);
+    expect(grade.score).toBe(100);
+    expect(grade.results.every((r) => r.passed)).toBe(true);
+  });
+
+  it("ignores events from before the challenge started and calls that reverted", () => {
+    const granted: Challenge = {
+      id: "granted",
+      title: "Grant Bob",
+      goal: "Log a grant to Bob",
+      actors: defaultActors,
+      setup: [
+        { type: "createCiphertext", id: "ct_1", fheType: "euint64", data: "1", owner: alice, contract: token },
+        { type: "allow", ciphertext: "ct_1", address: bob },
+      ],
+      constraints: [
+        {
+          description: "A grant to Bob was logged",
+          points: 1,
+          check: ({ events }) => events.some((e) => e.type === "allow" && e.address === bob),
+          explanation: "",
+        },
+      ],
+    };
+    const { state, since } = challengeState(granted, "2025-01-01T00:00:00.000Z");
+    expect(gradeChallenge(granted, state, since).score).toBe(0);
+
+    // An expiry that is not after the current block is rejected
+    const rejected = play(state, { type: "allow", ciphertext: "ct_1", address: bob, expiresAt: state.block });
+    expect(rejected.events[0].reverted).toBe(true);
+    expect(gradeChallenge(granted, rejected, since).score).toBe(0);
+  });
+});
@@ -0,0 +1,58 @@
+// acl/challenge.ts — Graded puzzles: reach a goal with the ACL controls, then
+// have the final state and the events logged on the way checked against it
+
+import type { Actor } from "./actors";
+import { randomEntropy } from "./kms";
+import { aclReducer, initialACLState } from "./reducer";
+import type { ACLAction, ACLEvent, ACLState } from "./types";
+
+// What a constraint sees once the user submits
+export interface ChallengeAttempt {
+  state: ACLState;
+  // Events logged since the challenge was set up, newest first, leaving out
+  // ACL calls that reverted
+  events: ACLEvent[];
+}
+
+export interface ChallengeConstraint {
+  description: string;
+  points: number;
+  check: (attempt: ChallengeAttempt) => boolean;
+  // Why the constraint matters, shown whether or not it was met
+  explanation: string;
+}
+
+export interface Challenge {
+  id: string;
+  title: string;
+  goal: string;
+  actors: Actor[];
+  // Replayed to build the starting position
+  setup: ACLAction[];
+  constraints: ChallengeConstraint[];
+}
+
+export interface ChallengeGrade {
+  score: number;
+  max: number;
+  results: { constraint: ChallengeConstraint; passed: boolean }[];
+}
+
+// Starting position of a challenge, and the sequence number it ends at
+export function challengeState(challenge: Challenge, timestamp: string): { state: ACLState; since: number } {
+  const state = challenge.setup.reduce(
+    (s, action) => aclReducer(s, { ...action, timestamp, entropy: randomEntropy(action) }),
+    { ...initialACLState, actors: challenge.actors }
+  );
+  return { state, since: state.events[0]?.seq ?? 0 };
+}
+
+export function gradeChallenge(challenge: Challenge, state: ACLState, since: number): ChallengeGrade {
+  const attempt = { state, events: state.events.filter((e) => e.seq > since && !e.reverted) };
+  const results = challenge.constraints.map((constraint) => ({ constraint, passed: constraint.check(attempt) }));
+  return {
+    score: results.reduce((n, r) => n + (r.passed ? r.constraint.points : 0), 0),
+    max: challenge.constraints.reduce((n, c) => n + c.points, 0),
+    results,
+  };
+}
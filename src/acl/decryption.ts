@@ -0,0 +1,92 @@
+// acl/decryption.ts — The rules each decryption or permission check enforces
+
+import type { Actor } from "./actors";
+import { describeAddress } from "./actors";
+import type { TypedValue } from "./fhe";
+import type { KMSAnswer } from "./kms";
+import { thresholdDecrypt } from "./kms";
+import { FHELibrary } from "./library";
+import type { ACLState, Ciphertext } from "./types";
+
+export interface CheckResult {
+  allowed: boolean;
+  reason: string;
+}
+
+// Signature check for requests that were not signed through WebCrypto (scenario
+// steps): the Gateway accepts a request only when the user signed it themselves
+export const signatureBy = (user: string, signer: string, actors: Actor[]): CheckResult =>
+  signer === user
+    ? { allowed: true, reason: "signature valid" }
+    : {
+        allowed: false,
+        reason: `EIP-712 request signed by ${describeAddress(actors, signer)}, not by ${describeAddress(actors, user)}`,
+      };
+
+// User decryption: the Gateway verifies the EIP-712 request first, then the KMS
+// re-encrypts only if both the user and the named contract are on the ACL.
+export function checkUserDecryption(
+  cipher: Ciphertext,
+  user: string,
+  contract: string,
+  signature: CheckResult,
+  actors: Actor[]
+): CheckResult {
+  const name = (address: string) => describeAddress(actors, address);
+  if (!signature.allowed) return signature;
+  const missing = [user, contract].filter((a) => !FHELibrary.isAllowed(cipher, a));
+  if (missing.length > 0) {
+    return { allowed: false, reason: `${missing.map(name).join(" and ")} not on the ACL of ${cipher.id}` };
+  }
+  return { allowed: true, reason: `${name(user)} and ${name(contract)} are both on the ACL, ${signature.reason}` };
+}
+
+// Client side of a signed user decryption: the KMS is only asked once the checks
+// the reducer repeats pass, and its one threshold decryption yields the answer
+// the command carries and the value that only the client gets to re-encrypt
+export function collectUserDecryption(
+  state: ACLState,
+  cipher: Ciphertext,
+  user: string,
+  contract: string,
+  signature: CheckResult,
+  entropy: string
+): { kms: KMSAnswer; value: TypedValue | null } {
+  if (!checkUserDecryption(cipher, user, contract, signature, state.actors).allowed) {
+    return { kms: { responses: [], decrypted: false }, value: null };
+  }
+  const { value, responses } = thresholdDecrypt(state.kms, cipher, entropy);
+  return { kms: { responses, decrypted: value !== null }, value: cipher.plaintextUnknown ? null : value };
+}
+
+// Public decryption: the Gateway relays the request and the KMS answers anyone,
+// but only for handles marked with makePubliclyDecryptable
+export const checkPublicDecryption = (cipher: Ciphertext): CheckResult =>
+  cipher.isPublic
+    ? { allowed: true, reason: `${cipher.id} is publicly decryptable` }
+    : { allowed: false, reason: `${cipher.id} was never passed to FHE.makePubliclyDecryptable()` };
+
+// On-chain guard: require(FHE.isSenderAllowed(handle)) inside a contract call
+export const checkSender = (cipher: Ciphertext, sender: string, actors: Actor[]): CheckResult =>
+  FHELibrary.isSenderAllowed(cipher, sender)
+    ? { allowed: true, reason: `${describeAddress(actors, sender)} is on the ACL of ${cipher.id}` }
+    : { allowed: false, reason: `${describeAddress(actors, sender)} is not on the ACL of ${cipher.id}` };
+
+// First contract on the ciphertext's ACL, the natural target of a user decryption
+export const aclContract = (cipher: Ciphertext, actors: Actor[]): string | undefined =>
+  [...cipher.permanentACL, ...cipher.transientACL].find((a) => actors.some((x) => x.address === a && x.kind === "contract"));
+
+export type DecryptionPlan =
+  | { flow: "user"; contract: string; result: CheckResult }
+  | { flow: "public"; result: CheckResult };
+
+// The request `address` would make to read `cipher`: public decryption when it
+// is public and they hold no ACL entry, otherwise a self-signed user decryption
+// through the first contract on the ACL
+export function planDecryption(cipher: Ciphertext, address: string, actors: Actor[]): DecryptionPlan {
+  if (cipher.isPublic && !FHELibrary.isAllowed(cipher, address)) {
+    return { flow: "public", result: checkPublicDecryption(cipher) };
+  }
+  const contract = aclContract(cipher, actors) ?? cipher.owner;
+  return { flow: "user", contract, result: checkUserDecryption(cipher, address, contract, signatureBy(address, address, actors), actors) };
+}
@@ -0,0 +1,117 @@
+// acl/eip712.ts — EIP-712 user-decryption requests and KMS re-encryption on WebCrypto.
+// WebCrypto has neither secp256k1 nor keccak256, so signatures use ECDSA P-256
+// over a SHA-256 digest of the typed data; the request layout follows FHEVM.
+
+import type { CheckResult } from "./decryption";
+
+export interface ActorKeys {
+  // ECDSA key the actor signs requests with; the Gateway knows the public half
+  signing: CryptoKeyPair;
+  // ECDH key the KMS re-encrypts results to
+  encryption: CryptoKeyPair;
+  // Raw encryption public key, hex encoded, as carried in the request
+  publicKey: string;
+}
+
+export interface UserDecryptRequest {
+  domain: { name: string; version: string; chainId: number; verifyingContract: string };
+  types: { UserDecryptRequestVerification: { name: string; type: string }[] };
+  primaryType: "UserDecryptRequestVerification";
+  message: {
+    publicKey: string;
+    contractAddresses: string[];
+    startTimestamp: number;
+    durationDays: number;
+  };
+}
+
+export const SECONDS_PER_DAY = 86_400;
+
+const toHex = (bytes: ArrayBuffer | Uint8Array) =>
+  `0x${Array.from(new Uint8Array(bytes), (b) => b.toString(16).padStart(2, "0")).join("")}`;
+
+const fromHex = (hex: string) =>
+  Uint8Array.from(hex.replace(/^0x/, "").match(/.{2}/g) ?? [], (b) => parseInt(b, 16));
+
+export async function generateActorKeys(): Promise<ActorKeys> {
+  const signing = await crypto.subtle.generateKey({ name: "ECDSA", namedCurve: "P-256" }, false, ["sign", "verify"]);
+  const encryption = await crypto.subtle.generateKey({ name: "ECDH", namedCurve: "P-256" }, false, ["deriveKey"]);
+  const publicKey = toHex(await crypto.subtle.exportKey("raw", encryption.publicKey));
+  return { signing, encryption, publicKey };
+}
+
+export const buildUserDecryptRequest = (
+  message: UserDecryptRequest["message"],
+  gateway: string
+): UserDecryptRequest => ({
+  domain: { name: "Decryption", version: "1", chainId: 31337, verifyingContract: gateway },
+  types: {
+    UserDecryptRequestVerification: [
+      { name: "publicKey", type: "bytes" },
+      { name: "contractAddresses", type: "address[]" },
+      { name: "startTimestamp", type: "uint256" },
+      { name: "durationDays", type: "uint256" },
+    ],
+  },
+  primaryType: "UserDecryptRequestVerification",
+  message,
+});
+
+// Stand-in for the EIP-712 struct hash: SHA-256 over the canonical request
+const digest = (request: UserDecryptRequest) =>
+  crypto.subtle.digest("SHA-256", new TextEncoder().encode(JSON.stringify(request)));
+
+const ECDSA = { name: "ECDSA", hash: "SHA-256" };
+
+export const signRequest = async (request: UserDecryptRequest, key: CryptoKey): Promise<string> =>
+  toHex(await crypto.subtle.sign(ECDSA, key, await digest(request)));
+
+// What the Gateway checks before it even looks at the ACL
+export async function verifyRequest(
+  request: UserDecryptRequest,
+  signature: string,
+  userSigningKey: CryptoKey,
+  contract: string,
+  now: number
+): Promise<CheckResult> {
+  const valid = await crypto.subtle.verify(ECDSA, userSigningKey, fromHex(signature), await digest(request));
+  if (!valid) return { allowed: false, reason: "EIP-712 signature does not match the user's key" };
+
+  const { startTimestamp, durationDays, contractAddresses } = request.message;
+  if (now < startTimestamp) return { allowed: false, reason: "request is not valid yet" };
+  if (now > startTimestamp + durationDays * SECONDS_PER_DAY) {
+    return { allowed: false, reason: "request validity window has expired" };
+  }
+  if (!contractAddresses.includes(contract)) {
+    return { allowed: false, reason: "contract is not listed in the signed request" };
+  }
+  return { allowed: true, reason: "EIP-712 signature verified" };
+}
+
+const deriveAesKey = (privateKey: CryptoKey, publicKey: CryptoKey, usage: KeyUsage) =>
+  crypto.subtle.deriveKey({ name: "ECDH", public: publicKey }, privateKey, { name: "AES-GCM", length: 256 }, false, [
+    usage,
+  ]);
+
+const importEcdhPublicKey = (hex: string) =>
+  crypto.subtle.importKey("raw", fromHex(hex), { name: "ECDH", namedCurve: "P-256" }, false, []);
+
+// KMS side: encrypt `plaintext` to the requester's public key. The result is
+// ephemeral public key (65 bytes) ‖ IV (12 bytes) ‖ AES-GCM ciphertext, hex encoded.
+export async function reencrypt(plaintext: string, publicKey: string): Promise<string> {
+  const ephemeral = await crypto.subtle.generateKey({ name: "ECDH", namedCurve: "P-256" }, true, ["deriveKey"]);
+  const key = await deriveAesKey(ephemeral.privateKey, await importEcdhPublicKey(publicKey), "encrypt");
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const sealed = await crypto.subtle.encrypt({ name: "AES-GCM", iv }, key, new TextEncoder().encode(plaintext));
+  const ephemeralRaw = new Uint8Array(await crypto.subtle.exportKey("raw", ephemeral.publicKey));
+  return toHex(new Uint8Array([...ephemeralRaw, ...iv, ...new Uint8Array(sealed)]));
+}
+
+// User side: open a re-encrypted result; throws unless `privateKey` is the intended one
+export async function decryptReencrypted(blob: string, privateKey: CryptoKey): Promise<string> {
+  const bytes = fromHex(blob);
+  const ephemeral = await importEcdhPublicKey(toHex(bytes.slice(0, 65)));
+  const key = await deriveAesKey(privateKey, ephemeral, "decrypt");
+  const opened = await crypto.subtle.decrypt({ name: "AES-GCM", iv: bytes.slice(65, 77) }, key, bytes.slice(77));
+  return new TextDecoder().decode(opened);
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import { eventStatus, eventsToCSV, eventsToJSON, filterEvents } from "./eventLog";
+import type { ACLEvent } from "./types";
+
+const alice = "0x1234a11ce0000000000000000000000000000001";
+
+const event = (seq: number, fields: Partial<ACLEvent>): ACLEvent => ({
+  seq,
+  timestamp: "2025-01-01T00:00:00.000Z",
+  type: "allow",
+  tx: "tx_1",
+  ciphertext: "ct_1",
+  actor: "FHE.allow()",
+  address: alice,
+  details: "Granted",
+  changes: [],
+  ...fields,
+});
+
+// Newest first, as the reducer logs them
+const events: ACLEvent[] = [
+  event(3, { type: "tx_end", tx: null, ciphertext: null, actor: "EVM (commit)", address: null, details: "tx_1 committed" }),
+  event(2, { type: "sender_denied", actor: "Mallory", details: '✗ reverts "Unauthorized", says "no", twice' }),
+  event(1, { changes: [{ kind: "public", ciphertext: "ct_1", isPublic: true }], details: "line one\nline two" }),
+];
+
+describe("event log export", () => {
+  it("writes CSV oldest first, quoting commas, quotes and newlines", () => {
+    expect(eventsToCSV(events).split("\n")).toEqual([
+      "seq,timestamp,type,tx,ciphertext,actor,address,details",
+      `1,2025-01-01T00:00:00.000Z,allow,tx_1,ct_1,FHE.allow(),${alice},"line one`,
+      'line two"',
+      `2,2025-01-01T00:00:00.000Z,sender_denied,tx_1,ct_1,Mallory,${alice},"✗ reverts ""Unauthorized"", says ""no"", twice"`,
+      "3,2025-01-01T00:00:00.000Z,tx_end,,,EVM (commit),,tx_1 committed",
+    ]);
+  });
+
+  it("writes JSON oldest first with the structured fields", () => {
+    const exported = JSON.parse(eventsToJSON(events)) as ACLEvent[];
+    expect(exported.map((e) => e.seq)).toEqual([1, 2, 3]);
+    expect(exported[0]).toEqual(events[2]);
+  });
+});
+
+describe("filterEvents", () => {
+  it("matches every set field and ignores unset ones", () => {
+    expect(filterEvents(events, {})).toEqual(events);
+    expect(filterEvents(events, { ciphertext: "ct_1" }).map((e) => e.seq)).toEqual([2, 1]);
+    expect(filterEvents(events, { ciphertext: "ct_1", actor: "Mallory" }).map((e) => e.seq)).toEqual([2]);
+    expect(filterEvents(events, { type: "allow", actor: "Mallory" })).toEqual([]);
+  });
+});
+
+describe("eventStatus", () => {
+  it("reads the outcome from the type or the reverted flag", () => {
+    expect(eventStatus(events[1])).toBe("denied");
+    expect(eventStatus(event(4, { type: "compute" }))).toBe("success");
+    expect(eventStatus(events[2])).toBeNull();
+    expect(eventStatus(event(5, { details: "✗ FHE.allow(ct_1) reverted", reverted: true }))).toBe("denied");
+  });
+});
@@ -0,0 +1,78 @@
+// acl/eventLog.ts — Filtering and export of the ACL audit log
+
+import type { ACLEvent, ACLEventType } from "./types";
+
+export const ACL_EVENT_TYPES: ACLEventType[] = [
+  "allow",
+  "allowTransient",
+  "revoke",
+  "makePublic",
+  "compute",
+  "compute_denied",
+  "user_decrypt_request",
+  "user_decrypt_success",
+  "user_decrypt_denied",
+  "public_decrypt_request",
+  "public_decrypt_success",
+  "public_decrypt_denied",
+  "sender_allowed",
+  "sender_denied",
+  "kms_share",
+  "call",
+  "call_return",
+  "tx_begin",
+  "tx_end",
+];
+
+// Events that settle whether a request or call went through
+export const OUTCOME_EVENTS: Partial<Record<ACLEventType, "success" | "denied">> = {
+  compute: "success",
+  compute_denied: "denied",
+  user_decrypt_success: "success",
+  user_decrypt_denied: "denied",
+  public_decrypt_success: "success",
+  public_decrypt_denied: "denied",
+  sender_allowed: "success",
+  sender_denied: "denied",
+};
+
+// Refusals, including ACL calls that reverted, such as a revoke the permission model forbids
+export const isDeniedEvent = (event: ACLEvent): boolean => OUTCOME_EVENTS[event.type] === "denied" || !!event.reverted;
+
+// Outcome in words, so it never depends on the event's colour alone
+export const eventStatus = (event: ACLEvent): "denied" | "success" | null =>
+  isDeniedEvent(event) ? "denied" : (OUTCOME_EVENTS[event.type] ?? null);
+
+// Unset fields match every event
+export interface EventFilter {
+  type?: ACLEventType;
+  // Who acted, as shown in the log: an actor, a library call, "KMS", a guardian…
+  actor?: string;
+  ciphertext?: string;
+}
+
+export const filterEvents = (events: ACLEvent[], filter: EventFilter): ACLEvent[] =>
+  events.filter(
+    (e) =>
+      (!filter.type || e.type === filter.type) &&
+      (!filter.actor || e.actor === filter.actor) &&
+      (!filter.ciphertext || e.ciphertext === filter.ciphertext)
+  );
+
+// `changes`, `handles` and `contract` are structured, so they are only part of the JSON export;
+// so is the `reverted` flag, which the "✗" opening `details` already shows
+const CSV_COLUMNS: Exclude<keyof ACLEvent, "changes" | "handles" | "contract" | "reverted">[] = ["seq", "timestamp", "type", "tx", "ciphertext", "actor", "address", "details"];
+
+const csvField = (value: string | number | null): string => {
+  const text = value === null ? "" : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Both exports list events oldest first, the order they happened in
+export const eventsToCSV = (events: ACLEvent[]): string =>
+  [CSV_COLUMNS.join(","), ...[...events].reverse().map((e) => CSV_COLUMNS.map((c) => csvField(e[c])).join(","))].join(
+    "\n"
+  );
+
+export const eventsToJSON = (events: ACLEvent[]): string =>
+  JSON.stringify([...events].reverse(), null, 2);
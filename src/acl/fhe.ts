@@ -0,0 +1,158 @@
+// acl/fhe.ts — Encrypted value types and the FHE operations computed on them
+
+import { isAddress } from "./actors";
+
+export type FheType = "ebool" | "euint8" | "euint16" | "euint32" | "euint64" | "eaddress";
+
+export const FHE_TYPES: FheType[] = ["ebool", "euint8", "euint16", "euint32", "euint64", "eaddress"];
+
+const BITS: Record<FheType, number> = {
+  ebool: 1,
+  euint8: 8,
+  euint16: 16,
+  euint32: 32,
+  euint64: 64,
+  eaddress: 160,
+};
+
+export type FheOperation =
+  | "add"
+  | "sub"
+  | "mul"
+  | "min"
+  | "max"
+  | "eq"
+  | "ne"
+  | "lt"
+  | "le"
+  | "gt"
+  | "ge"
+  | "and"
+  | "or"
+  | "xor"
+  | "not"
+  | "select";
+
+// Number of handles each operation consumes
+export const FHE_OPERATIONS: { op: FheOperation; arity: number; description: string }[] = [
+  { op: "add", arity: 2, description: "a + b (wrapping)" },
+  { op: "sub", arity: 2, description: "a - b (wrapping)" },
+  { op: "mul", arity: 2, description: "a * b (wrapping)" },
+  { op: "min", arity: 2, description: "smaller of a and b" },
+  { op: "max", arity: 2, description: "larger of a and b" },
+  { op: "eq", arity: 2, description: "a == b → ebool" },
+  { op: "ne", arity: 2, description: "a != b → ebool" },
+  { op: "lt", arity: 2, description: "a < b → ebool" },
+  { op: "le", arity: 2, description: "a <= b → ebool" },
+  { op: "gt", arity: 2, description: "a > b → ebool" },
+  { op: "ge", arity: 2, description: "a >= b → ebool" },
+  { op: "and", arity: 2, description: "a & b (bitwise / logical)" },
+  { op: "or", arity: 2, description: "a | b (bitwise / logical)" },
+  { op: "xor", arity: 2, description: "a ^ b (bitwise / logical)" },
+  { op: "not", arity: 1, description: "~a (bitwise / logical)" },
+  { op: "select", arity: 3, description: "cond ? a : b" },
+];
+
+export interface TypedValue {
+  fheType: FheType;
+  data: string;
+}
+
+const isUint = (type: FheType) => type.startsWith("euint");
+
+const mask = (type: FheType) => (1n << BigInt(BITS[type])) - 1n;
+
+// Integer a value is encrypted as; `fromBig` wraps it back into the type's range
+export const toBig = ({ fheType, data }: TypedValue): bigint =>
+  fheType === "ebool" ? (data === "true" ? 1n : 0n) : BigInt(data);
+
+export const fromBig = (fheType: FheType, value: bigint): TypedValue => {
+  const v = value & mask(fheType);
+  if (fheType === "ebool") return { fheType, data: v === 1n ? "true" : "false" };
+  if (fheType === "eaddress") return { fheType, data: `0x${v.toString(16).padStart(40, "0")}` };
+  return { fheType, data: v.toString() };
+};
+
+// Canonical plaintext encoding of `raw` as `type`, or null if it does not fit
+export function encodeValue(type: FheType, raw: string): string | null {
+  const value = raw.trim();
+  if (type === "ebool") {
+    if (value === "true" || value === "1") return "true";
+    if (value === "false" || value === "0") return "false";
+    return null;
+  }
+  if (type === "eaddress") return isAddress(value) ? value.toLowerCase() : null;
+  if (!/^\d+$/.test(value)) return null;
+  const n = BigInt(value);
+  return n <= mask(type) ? n.toString() : null;
+}
+
+// "euint64(1000)"
+export const formatValue = ({ fheType, data }: TypedValue): string => `${fheType}(${data})`;
+
+// Evaluates `op` on plaintext inputs, enforcing the FHEVM operand typing rules
+export function evaluate(op: FheOperation, inputs: TypedValue[]): TypedValue | { error: string } {
+  const spec = FHE_OPERATIONS.find((o) => o.op === op);
+  if (!spec || inputs.length !== spec.arity) {
+    return { error: `FHE.${op} expects ${spec?.arity ?? "?"} operand(s)` };
+  }
+  const [a, b, c] = inputs;
+  const sameType = (x: TypedValue, y: TypedValue) => x.fheType === y.fheType;
+
+  switch (op) {
+    case "add":
+    case "sub":
+    case "mul":
+    case "min":
+    case "max": {
+      if (!isUint(a.fheType) || !sameType(a, b)) {
+        return { error: `FHE.${op} needs two euint operands of the same type` };
+      }
+      const [x, y] = [toBig(a), toBig(b)];
+      const result = {
+        add: x + y,
+        sub: x - y,
+        mul: x * y,
+        min: x < y ? x : y,
+        max: x > y ? x : y,
+      }[op];
+      return fromBig(a.fheType, result);
+    }
+
+    case "eq":
+    case "ne":
+      if (!sameType(a, b)) return { error: `FHE.${op} needs operands of the same type` };
+      return fromBig("ebool", (toBig(a) === toBig(b)) === (op === "eq") ? 1n : 0n);
+
+    case "lt":
+    case "le":
+    case "gt":
+    case "ge": {
+      if (!isUint(a.fheType) || !sameType(a, b)) {
+        return { error: `FHE.${op} needs two euint operands of the same type` };
+      }
+      const [x, y] = [toBig(a), toBig(b)];
+      const result = { lt: x < y, le: x <= y, gt: x > y, ge: x >= y }[op];
+      return fromBig("ebool", result ? 1n : 0n);
+    }
+
+    case "and":
+    case "or":
+    case "xor": {
+      if (a.fheType === "eaddress" || !sameType(a, b)) {
+        return { error: `FHE.${op} needs two ebool or euint operands of the same type` };
+      }
+      const [x, y] = [toBig(a), toBig(b)];
+      return fromBig(a.fheType, { and: x & y, or: x | y, xor: x ^ y }[op]);
+    }
+
+    case "not":
+      if (a.fheType === "eaddress") return { error: "FHE.not needs an ebool or euint operand" };
+      return fromBig(a.fheType, ~toBig(a));
+
+    case "select":
+      if (a.fheType !== "ebool") return { error: "FHE.select needs an ebool condition" };
+      if (!sameType(b, c)) return { error: "FHE.select needs both branches of the same type" };
+      return fromBig(b.fheType, toBig(toBig(a) === 1n ? b : c));
+  }
+}
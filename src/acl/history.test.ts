@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest";
+import { defaultActors } from "./actors";
+import { ciphertextsAt, describeChange, diffCiphertexts } from "./history";
+import { randomEntropy } from "./kms";
+import { FHELibrary } from "./library";
+import { aclReducer, initialACLState } from "./reducer";
+import type { ACLAction, ACLState, Ciphertext } from "./types";
+
+const alice = "0x1234a11ce0000000000000000000000000000001";
+const bob = "0x1234b0b000000000000000000000000000000002";
+const token = "0x5678c0de00000000000000000000000000000003";
+const gateway = "0x9999ca7e00000000000000000000000000000004";
+
+const cipher: Ciphertext = {
+  id: "ct_1",
+  fheType: "euint64",
+  data: "0x00",
+  owner: alice,
+  permanentACL: [],
+  grants: [],
+  transientACL: [],
+  isPublic: false,
+};
+
+const terms = { grantor: token, grantedAt: 1, expiresAt: null, reason: "" };
+
+describe("ciphertextsAt", () => {
+  it("replays the log to the ciphertexts right after every event", () => {
+    const actions: ACLAction[] = [
+      { type: "createCiphertext", id: "ct_1", fheType: "euint64", data: "1000", owner: alice, contract: token },
+      { type: "beginTx" },
+      { type: "allowTransient", ciphertext: "ct_1", address: gateway },
+      { type: "createCiphertext", id: "ct_2", fheType: "ebool", data: "true", owner: alice, contract: token },
+      { type: "revertTx" },
+      { type: "allow", ciphertext: "ct_1", address: bob, expiresAt: 3, reason: "audit" },
+      { type: "makePubliclyDecryptable", ciphertext: "ct_1" },
+      { type: "advanceClock", blocks: 5 },
+      { type: "setPermissionModel", model: "revocable" },
+      { type: "revoke", ciphertext: "ct_1", address: alice },
+    ];
+    const states: ACLState[] = [];
+    actions.reduce((state, action) => {
+      const next = aclReducer(state, { ...action, timestamp: "2025-01-01T00:00:00.000Z", entropy: randomEntropy(action) });
+      states.push(next);
+      return next;
+    }, initialACLState);
+
+    // The revert deleted ct_2, the clock expired Bob's grant and Alice's was revoked
+    expect(states.map((s) => s.ciphertexts.length)).toEqual([1, 1, 1, 2, 1, 1, 1, 1, 1, 1]);
+    expect(states[states.length - 1].ciphertexts[0].permanentACL).toEqual([token]);
+
+    const { events } = states[states.length - 1];
+    for (const state of states) {
+      expect(ciphertextsAt(events, state.events[0].seq)).toEqual(state.ciphertexts);
+    }
+    expect(ciphertextsAt(events, 0)).toEqual([]);
+  });
+});
+
+describe("diffCiphertexts", () => {
+  it("finds nothing between identical lists", () => {
+    const list = [cipher];
+    expect(diffCiphertexts(list, list)).toEqual([]);
+    expect(diffCiphertexts(list, [...list])).toEqual([]);
+  });
+
+  it("lists creations, grants, removals, publication and deletions", () => {
+    const before = [FHELibrary.allowTransient(FHELibrary.allow(cipher, alice, terms), gateway), { ...cipher, id: "ct_2" }];
+    const changed = FHELibrary.makePubliclyDecryptable(FHELibrary.allow(FHELibrary.clearTransient(before[0]), bob, terms));
+    const after = [changed, { ...cipher, id: "ct_3" }];
+    expect(diffCiphertexts(before, after)).toEqual([
+      { kind: "grant", ciphertext: "ct_1", list: "permanent", address: bob, grant: { address: bob, ...terms } },
+      { kind: "remove", ciphertext: "ct_1", list: "transient", address: gateway },
+      { kind: "public", ciphertext: "ct_1", isPublic: true },
+      { kind: "create", ciphertext: after[1] },
+      { kind: "delete", ciphertext: "ct_2" },
+    ]);
+  });
+
+  it("records a permanent grant renewed on new terms", () => {
+    const before = [FHELibrary.allow(cipher, bob, terms)];
+    const renewed = { ...terms, expiresAt: 9 };
+    expect(diffCiphertexts(before, [FHELibrary.allow(before[0], bob, renewed)])).toEqual([
+      { kind: "grant", ciphertext: "ct_1", list: "permanent", address: bob, grant: { address: bob, ...renewed } },
+    ]);
+  });
+});
+
+describe("describeChange", () => {
+  it("summarises a change with actor names and expiry", () => {
+    const grant = { address: bob, ...terms, expiresAt: 9 };
+    expect(describeChange({ kind: "grant", ciphertext: "ct_1", list: "permanent", address: bob, grant }, defaultActors)).toBe(
+      "+ Bob (0x1234…0002) on permanent ACL of ct_1 until block 9"
+    );
+    expect(describeChange({ kind: "public", ciphertext: "ct_1", isPublic: true }, defaultActors)).toBe(
+      "+ ct_1 made publicly decryptable"
+    );
+  });
+});
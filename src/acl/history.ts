@@ -0,0 +1,109 @@
+// acl/history.ts — Event-sourced ciphertext history behind the time-travel view
+
+import type { Actor } from "./actors";
+import { describeAddress } from "./actors";
+import type { ACLChange, ACLEvent, Ciphertext } from "./types";
+
+// Changes turning `before` into `after`, in ciphertext order
+export function diffCiphertexts(before: Ciphertext[], after: Ciphertext[]): ACLChange[] {
+  if (before === after) return [];
+  const changes: ACLChange[] = [];
+  const previous = new Map(before.map((c) => [c.id, c]));
+
+  for (const cipher of after) {
+    const old = previous.get(cipher.id);
+    previous.delete(cipher.id);
+    if (!old) {
+      changes.push({ kind: "create", ciphertext: cipher });
+      continue;
+    }
+    if (old === cipher) continue;
+    for (const list of ["permanent", "transient"] as const) {
+      const key = list === "permanent" ? "permanentACL" : "transientACL";
+      for (const address of cipher[key]) {
+        if (list === "transient") {
+          if (!old[key].includes(address)) changes.push({ kind: "grant", ciphertext: cipher.id, list, address });
+          continue;
+        }
+        // New permanent grants, and existing ones granted again on new terms
+        const grant = cipher.grants.find((g) => g.address === address);
+        if (!old[key].includes(address) || grant !== old.grants.find((g) => g.address === address)) {
+          changes.push({ kind: "grant", ciphertext: cipher.id, list, address, grant });
+        }
+      }
+      for (const address of old[key]) {
+        if (!cipher[key].includes(address)) changes.push({ kind: "remove", ciphertext: cipher.id, list, address });
+      }
+    }
+    if (old.isPublic !== cipher.isPublic) {
+      changes.push({ kind: "public", ciphertext: cipher.id, isPublic: cipher.isPublic });
+    }
+  }
+  for (const id of previous.keys()) changes.push({ kind: "delete", ciphertext: id });
+  return changes;
+}
+
+export function applyChanges(ciphertexts: Ciphertext[], changes: ACLChange[]): Ciphertext[] {
+  let result = ciphertexts;
+  const update = (id: string, fn: (c: Ciphertext) => Ciphertext) => {
+    result = result.map((c) => (c.id === id ? fn(c) : c));
+  };
+
+  for (const change of changes) {
+    switch (change.kind) {
+      case "create":
+        result = [...result, change.ciphertext];
+        break;
+      case "delete":
+        result = result.filter((c) => c.id !== change.ciphertext);
+        break;
+      case "grant":
+      case "remove": {
+        const key = change.list === "permanent" ? "permanentACL" : "transientACL";
+        const { address, grant } = change;
+        update(change.ciphertext, (c) => {
+          const updated = {
+            ...c,
+            [key]:
+              change.kind === "grant"
+                ? c[key].includes(address) ? c[key] : [...c[key], address]
+                : c[key].filter((a) => a !== address),
+          };
+          if (change.list === "transient") return updated;
+          const others = c.grants.filter((g) => g.address !== address);
+          return { ...updated, grants: change.kind === "grant" && grant ? [...others, grant] : others };
+        });
+        break;
+      }
+      case "public":
+        update(change.ciphertext, (c) => ({ ...c, isPublic: change.isPublic }));
+        break;
+    }
+  }
+  return result;
+}
+
+// Ciphertexts as they were right after event `seq`, replaying the log from the start
+export const ciphertextsAt = (events: ACLEvent[], seq: number): Ciphertext[] =>
+  [...events]
+    .reverse()
+    .filter((e) => e.seq <= seq)
+    .reduce((ciphertexts, e) => applyChanges(ciphertexts, e.changes), [] as Ciphertext[]);
+
+// One-line summary for the diff view, prefixed with + or − where it applies
+export function describeChange(change: ACLChange, actors: Actor[]): string {
+  switch (change.kind) {
+    case "create":
+      return `+ ${change.ciphertext.id} created (${change.ciphertext.fheType})`;
+    case "delete":
+      return `− ${change.ciphertext} removed`;
+    case "grant":
+      return `+ ${describeAddress(actors, change.address)} on ${change.list} ACL of ${change.ciphertext}${
+        change.grant?.expiresAt != null ? ` until block ${change.grant.expiresAt}` : ""
+      }`;
+    case "remove":
+      return `− ${describeAddress(actors, change.address)} off ${change.list} ACL of ${change.ciphertext}`;
+    case "public":
+      return `${change.isPublic ? "+" : "−"} ${change.ciphertext} ${change.isPublic ? "made" : "no longer"} publicly decryptable`;
+  }
+}
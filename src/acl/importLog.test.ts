@@ -0,0 +1,103 @@
+import { describe, expect, it } from "vitest";
+import { defaultActors } from "./actors";
+import { importACLLog, parseACLLog } from "./importLog";
+
+const token = "0x5678c0de00000000000000000000000000000003";
+const alice = "0x1234a11ce0000000000000000000000000000001";
+const stranger = "0xabcdef0000000000000000000000000000000009";
+
+// Byte 30 of a handle is its type: 05 is euint64, 00 ebool, 01 unsupported
+const handleOf = (type: string, fill = "ab") => `0x${fill.repeat(30)}${type}00`;
+const balance = handleOf("05");
+const flag = handleOf("00", "cd");
+
+const allowed = (caller: string, account: string, handle: string, tx?: string) => ({
+  event: "Allowed",
+  args: { caller, account, handle },
+  ...(tx && { transactionHash: tx }),
+});
+
+describe("parseACLLog", () => {
+  it("reports errors of a JSON array on the line each element starts", () => {
+    const text = JSON.stringify(
+      [allowed(token, alice, balance), allowed(token, alice, "0xnothex"), { event: "Transfer", args: {} }],
+      null,
+      2
+    );
+    const { entries, errors } = parseACLLog(text);
+    expect(entries).toHaveLength(1);
+    expect(entries[0].line).toBe(2);
+    expect(errors).toEqual([
+      { line: 10, message: '"handle" is not a bytes32 handle' },
+      { line: 18, message: 'unsupported event "Transfer" (expected Allowed or AllowedForDecryption)' },
+    ]);
+  });
+
+  it("does not count brackets and braces inside strings as structure", () => {
+    const text = `[\n{"event": "Allowed", "note": "[{\\"x\\": 1}]", "args": ${JSON.stringify({ caller: token, account: alice, handle: balance })}},\n\n  "oops"\n]`;
+    const { entries, errors } = parseACLLog(text);
+    expect(entries.map((e) => e.line)).toEqual([2]);
+    expect(errors).toEqual([{ line: 4, message: "expected an event object" }]);
+  });
+
+  it("reads JSON Lines, skipping blank lines and numbering from 1", () => {
+    const text = [
+      JSON.stringify(allowed(token, alice, balance)),
+      "",
+      "{not json",
+      JSON.stringify({ eventName: "AllowedForDecryption", args: [token, [flag]] }),
+    ].join("\n");
+    const { entries, errors } = parseACLLog(text);
+    expect(entries.map((e) => [e.line, e.name])).toEqual([
+      [1, "Allowed"],
+      [4, "AllowedForDecryption"],
+    ]);
+    expect(errors).toHaveLength(1);
+    expect(errors[0].line).toBe(3);
+    expect(errors[0].message).toMatch(/^not valid JSON/);
+  });
+
+  it("normalises addresses and accepts uint256 handles", () => {
+    const { entries } = parseACLLog(JSON.stringify([allowed(token.toUpperCase().replace("0X", "0x"), alice, "255")]));
+    expect(entries[0]).toMatchObject({ caller: token, handle: `0x${"0".repeat(62)}ff` });
+  });
+
+  it("rejects handles that are not 32 bytes of hex", () => {
+    const { errors } = parseACLLog(
+      [handleOf("05").slice(0, -2), `${balance.slice(0, -1)}g`].map((h) => JSON.stringify(allowed(token, alice, h))).join("\n")
+    );
+    expect(errors.map((e) => e.message)).toEqual(['"handle" is not a bytes32 handle', '"handle" is not a bytes32 handle']);
+  });
+});
+
+describe("importACLLog", () => {
+  it("types each handle from its type byte and skips unsupported ones", () => {
+    const text = [allowed(token, alice, balance), allowed(token, alice, flag), allowed(token, alice, handleOf("01", "ef"))]
+      .map((e) => JSON.stringify(e))
+      .join("\n");
+    const { state, imported, errors } = importACLLog(text, defaultActors, "2025-01-01T00:00:00.000Z");
+    expect(imported).toBe(2);
+    expect(state.ciphertexts.map((c) => [c.id, c.fheType])).toEqual([
+      ["ct_abababab", "euint64"],
+      ["ct_cdcdcdcd", "ebool"],
+    ]);
+    expect(errors).toEqual([{ line: 3, message: "handle 0xefefefef… has a type the visualizer does not support" }]);
+  });
+
+  it("replays grants, allowThis and publication with an unknown plaintext", () => {
+    const text = JSON.stringify([
+      allowed(token, token, balance, "0x01"),
+      allowed(token, stranger, balance, "0x01"),
+      { event: "AllowedForDecryption", args: { caller: token, handlesList: [balance] }, transactionHash: "0x02" },
+    ]);
+    const { state, errors } = importACLLog(text, defaultActors, "2025-01-01T00:00:00.000Z");
+    expect(errors).toEqual([]);
+    const [cipher] = state.ciphertexts;
+    expect(cipher.permanentACL).toEqual([token, stranger]);
+    expect(cipher.isPublic).toBe(true);
+    expect(cipher.plaintextUnknown).toBe(true);
+    expect(state.actors.find((a) => a.address === stranger)).toMatchObject({ kind: "eoa", name: "Account 0xabcd…0009" });
+    // One transaction per hash
+    expect(state.events.filter((e) => e.type === "tx_begin")).toHaveLength(2);
+  });
+});
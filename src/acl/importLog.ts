@@ -0,0 +1,227 @@
+// acl/importLog.ts — Replays events emitted by the FHEVM ACL contract (Allowed,
+// AllowedForDecryption) as exported from a Hardhat node or saved to a file
+
+import type { Actor } from "./actors";
+import { findActor, isAddress, shortAddress } from "./actors";
+import type { FheType } from "./fhe";
+import { randomEntropy } from "./kms";
+import { aclReducer, initialACLState } from "./reducer";
+import type { ACLAction, ACLState } from "./types";
+
+export interface ImportError {
+  line: number;
+  message: string;
+}
+
+export interface ImportResult {
+  state: ACLState;
+  // Entries that were replayed; the others are listed in `errors`
+  imported: number;
+  errors: ImportError[];
+}
+
+type ACLLogEntry =
+  | { line: number; name: "Allowed"; caller: string; account: string; handle: string; tx: string | null; timestamp: string | null }
+  | { line: number; name: "AllowedForDecryption"; caller: string; handles: string[]; tx: string | null; timestamp: string | null };
+
+// Byte 30 of a handle is its FheType in the FHEVM encoding
+const HANDLE_TYPES: Record<number, FheType> = { 0: "ebool", 2: "euint8", 3: "euint16", 4: "euint32", 5: "euint64", 7: "eaddress" };
+
+class EntryError extends Error {}
+
+// Line on which each top-level element of a JSON array starts
+function arrayElementLines(text: string): number[] {
+  const lines: number[] = [];
+  let line = 1;
+  let depth = 0;
+  let inString = false;
+  let expectingValue = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (ch === "\n") line++;
+    if (inString) {
+      if (ch === "\\") i++;
+      else if (ch === '"') inString = false;
+      continue;
+    }
+    if (/\s/.test(ch)) continue;
+    if (depth === 1 && expectingValue && ch !== "]") {
+      lines.push(line);
+      expectingValue = false;
+    }
+    if (ch === '"') inString = true;
+    else if (ch === "[" || ch === "{") {
+      depth++;
+      if (depth === 1) expectingValue = true;
+    } else if (ch === "]" || ch === "}") depth--;
+    else if (ch === "," && depth === 1) expectingValue = true;
+  }
+  return lines;
+}
+
+const address = (value: unknown, field: string): string => {
+  if (typeof value !== "string" || !isAddress(value)) throw new EntryError(`"${field}" is not an address`);
+  return value.toLowerCase();
+};
+
+// bytes32 hex, or the uint256 form older ACL versions emitted
+const handle = (value: unknown, field: string): string => {
+  if (typeof value === "string" && /^0x[0-9a-fA-F]{64}$/.test(value)) return value.toLowerCase();
+  if (typeof value === "string" && /^\d+$/.test(value) && BigInt(value) < 2n ** 256n) {
+    return `0x${BigInt(value).toString(16).padStart(64, "0")}`;
+  }
+  throw new EntryError(`"${field}" is not a bytes32 handle`);
+};
+
+const timestampOf = (entry: Record<string, unknown>): string | null => {
+  const value = entry.timestamp;
+  if (typeof value === "number") return new Date(value * 1000).toISOString();
+  if (typeof value === "string" && !Number.isNaN(Date.parse(value))) return new Date(value).toISOString();
+  return null;
+};
+
+function parseEntry(raw: unknown, line: number): ACLLogEntry {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) throw new EntryError("expected an event object");
+  const entry = raw as Record<string, unknown>;
+  const fragment = entry.fragment as { name?: unknown } | undefined;
+  const name = entry.event ?? entry.eventName ?? fragment?.name;
+  if (typeof name !== "string") throw new EntryError('missing "event" name');
+
+  const args = entry.args;
+  if (!args || typeof args !== "object") throw new EntryError(`${name}: missing "args"`);
+  // ethers decodes args both positionally and by name
+  const arg = (key: string, index: number) => (Array.isArray(args) ? args[index] : (args as Record<string, unknown>)[key]);
+  const tx = typeof entry.transactionHash === "string" ? entry.transactionHash : null;
+  const timestamp = timestampOf(entry);
+
+  if (name === "Allowed") {
+    return {
+      line,
+      name,
+      caller: address(arg("caller", 0), "caller"),
+      account: address(arg("account", 1), "account"),
+      handle: handle(arg("handle", 2), "handle"),
+      tx,
+      timestamp,
+    };
+  }
+  if (name === "AllowedForDecryption") {
+    const list = arg("handlesList", 1) ?? (args as Record<string, unknown>).handles;
+    if (!Array.isArray(list) || list.length === 0) throw new EntryError(`${name}: "handlesList" must be a non-empty array`);
+    return { line, name, caller: address(arg("caller", 0), "caller"), handles: list.map((h) => handle(h, "handlesList")), tx, timestamp };
+  }
+  throw new EntryError(`unsupported event "${name}" (expected Allowed or AllowedForDecryption)`);
+}
+
+// Accepts a JSON array of events or one JSON event per line (JSON Lines)
+export function parseACLLog(text: string): { entries: ACLLogEntry[]; errors: ImportError[] } {
+  const entries: ACLLogEntry[] = [];
+  const errors: ImportError[] = [];
+  const collect = (raw: unknown, line: number) => {
+    try {
+      entries.push(parseEntry(raw, line));
+    } catch (e) {
+      if (!(e instanceof EntryError)) throw e;
+      errors.push({ line, message: e.message });
+    }
+  };
+
+  if (text.trimStart().startsWith("[")) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch (e) {
+      return { entries, errors: [{ line: 1, message: `not valid JSON: ${(e as Error).message}` }] };
+    }
+    const lines = arrayElementLines(text);
+    (parsed as unknown[]).forEach((raw, i) => collect(raw, lines[i] ?? 1));
+  } else {
+    text.split("\n").forEach((source, i) => {
+      if (source.trim() === "") return;
+      try {
+        collect(JSON.parse(source), i + 1);
+      } catch (e) {
+        errors.push({ line: i + 1, message: `not valid JSON: ${(e as Error).message}` });
+      }
+    });
+  }
+  return { entries, errors };
+}
+
+// Rebuilds an ACL state from a log: handles become ciphertexts, unknown
+// addresses become actors (callers are contracts), and each transaction hash
+// becomes one transaction (an entry without one is a transaction of its own)
+export function importACLLog(text: string, actors: Actor[], timestamp: string): ImportResult {
+  const { entries, errors } = parseACLLog(text);
+  const ids = new Map<string, string>();
+  const imported: ACLLogEntry[] = [];
+
+  for (const entry of entries) {
+    const handles = entry.name === "Allowed" ? [entry.handle] : entry.handles;
+    const unsupported = handles.find((h) => !HANDLE_TYPES[parseInt(h.slice(62, 64), 16)]);
+    if (unsupported) {
+      errors.push({ line: entry.line, message: `handle ${unsupported.slice(0, 10)}… has a type the visualizer does not support` });
+      continue;
+    }
+    imported.push(entry);
+  }
+
+  const callers = new Set(imported.map((e) => e.caller));
+  const known = [...actors];
+  const ensureActor = (addr: string) => {
+    if (findActor(known, addr)) return;
+    const kind = callers.has(addr) ? "contract" : "eoa";
+    known.push({ address: addr, name: `${kind === "contract" ? "Contract" : "Account"} ${shortAddress(addr)}`, kind });
+  };
+  imported.forEach((e) => {
+    ensureActor(e.caller);
+    if (e.name === "Allowed") ensureActor(e.account);
+  });
+
+  const actions: { action: ACLAction; timestamp: string }[] = [];
+  let openTx: string | null = null;
+  let at = timestamp;
+  for (const entry of imported) {
+    at = entry.timestamp ?? timestamp;
+    const tx = entry.tx ?? `line ${entry.line}`;
+    if (openTx !== tx) {
+      if (openTx) actions.push({ action: { type: "commitTx" }, timestamp: at });
+      actions.push({ action: { type: "beginTx" }, timestamp: at });
+      openTx = tx;
+    }
+    const handles = entry.name === "Allowed" ? [entry.handle] : entry.handles;
+    for (const h of handles) {
+      if (ids.has(h)) continue;
+      let id = `ct_${h.slice(2, 10)}`;
+      if ([...ids.values()].includes(id)) id = `ct_${h.slice(2, 18)}`;
+      ids.set(h, id);
+      const fheType = HANDLE_TYPES[parseInt(h.slice(62, 64), 16)];
+      actions.push({
+        action: { type: "registerCiphertext", id, handle: h, fheType, owner: entry.caller },
+        timestamp: at,
+      });
+    }
+    if (entry.name === "Allowed") {
+      const ciphertext = ids.get(entry.handle)!;
+      // FHE.allowThis(handle) is Allowed(contract, contract, handle)
+      actions.push({
+        action:
+          entry.account === entry.caller
+            ? { type: "allowThis", ciphertext, contract: entry.caller }
+            : { type: "allow", ciphertext, address: entry.account, grantor: entry.caller },
+        timestamp: at,
+      });
+    } else {
+      entry.handles.forEach((h) =>
+        actions.push({ action: { type: "makePubliclyDecryptable", ciphertext: ids.get(h)! }, timestamp: at })
+      );
+    }
+  }
+  if (openTx) actions.push({ action: { type: "commitTx" }, timestamp: at });
+
+  const state = actions.reduce(
+    (s, { action, timestamp: at }) => aclReducer(s, { ...action, timestamp: at, entropy: randomEntropy(action) }),
+    { ...initialACLState, actors: known }
+  );
+  return { state, imported: imported.length, errors: errors.sort((a, b) => a.line - b.line) };
+}
@@ -0,0 +1,49 @@
+export { ACTOR_KINDS, actorsOfKind, defaultActors, describeAddress, findActor, isAddress, randomAddress, shortAddress } from "./actors";
+export type { Actor, ActorKind } from "./actors";
+export { FHE_OPERATIONS, FHE_TYPES, encodeValue, evaluate, formatValue } from "./fhe";
+export type { FheOperation, FheType, TypedValue } from "./fhe";
+export { FHELibrary, accessLevel, expiredGrants } from "./library";
+export type { AccessLevel, GrantTerms } from "./library";
+export {
+  KMS_PUBLIC_KEY,
+  KMS_SIZES,
+  dealKMS,
+  defaultKMS,
+  encryptValue,
+  evaluateEncrypted,
+  formatCiphertext,
+  isHomomorphic,
+  randomEntropy,
+  thresholdDecrypt,
+} from "./kms";
+export type { GuardianResponse, KMSAnswer } from "./kms";
+export { aclReducer, initialACLState } from "./reducer";
+export type { ACLAction, ACLChange, ACLCommand, ACLEvent, ACLEventType, ACLState, CallFrame, Ciphertext, Grant, Guardian, GuardianStatus, KMSState, PermissionModel, Transaction } from "./types";
+export { runStep, scenarioState } from "./scenario";
+export type { Scenario, ScenarioStep, StepResult } from "./scenario";
+export { SESSION_VERSION, decodeSessionFragment, encodeSessionFragment, parseSession, serializeSession } from "./session";
+export type { Session } from "./session";
+export { ACL_EVENT_TYPES, OUTCOME_EVENTS, eventStatus, eventsToCSV, eventsToJSON, filterEvents, isDeniedEvent } from "./eventLog";
+export type { EventFilter } from "./eventLog";
+export { applyChanges, ciphertextsAt, describeChange, diffCiphertexts } from "./history";
+export {
+  aclContract,
+  checkPublicDecryption,
+  checkSender,
+  checkUserDecryption,
+  collectUserDecryption,
+  planDecryption,
+  signatureBy,
+} from "./decryption";
+export type { CheckResult, DecryptionPlan } from "./decryption";
+export { SECONDS_PER_DAY, buildUserDecryptRequest, decryptReencrypted, generateActorKeys, reencrypt, signRequest, verifyRequest } from "./eip712";
+export type { ActorKeys, UserDecryptRequest } from "./eip712";
+export { evaluateStep } from "./tour";
+export type { Tour, TourContext, TourStep, TourStepStatus } from "./tour";
+export { challengeState, gradeChallenge } from "./challenge";
+export type { Challenge, ChallengeAttempt, ChallengeConstraint, ChallengeGrade } from "./challenge";
+export { toSolidity } from "./solidity";
+export { importACLLog, parseACLLog } from "./importLog";
+export { SEVERITIES, causeOf, lintPolicy } from "./policy";
+export type { Finding, PolicyRule, Severity } from "./policy";
+export type { ImportError, ImportResult } from "./importLog";
@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import type { TypedValue } from "./fhe";
+import { dealKMS, encryptValue, evaluateEncrypted, randomEntropy, thresholdDecrypt } from "./kms";
+import type { GuardianStatus, KMSState } from "./types";
+
+const decryption = () => randomEntropy({ type: "publicDecrypt", ciphertext: "ct_1", requester: "0x" });
+const encrypt = (value: TypedValue) =>
+  encryptValue(value, randomEntropy({ type: "createCiphertext", id: "ct_1", fheType: value.fheType, data: value.data, owner: "0x", contract: "0x" }));
+
+// Three guardians, any two of which decrypt
+const kms = dealKMS(3, 2, randomEntropy({ type: "configureKMS", size: 3, threshold: 2 }));
+const withStatus = (...statuses: GuardianStatus[]): KMSState => ({
+  ...kms,
+  guardians: kms.guardians.map((g, i) => ({ ...g, status: statuses[i] })),
+});
+
+describe("thresholdDecrypt", () => {
+  it("recovers the value when every guardian is honest", () => {
+    for (const value of [
+      { fheType: "euint64", data: "1000" },
+      { fheType: "ebool", data: "true" },
+      { fheType: "eaddress", data: "0x1234a11ce0000000000000000000000000000001" },
+    ] satisfies TypedValue[]) {
+      const { value: decrypted, responses } = thresholdDecrypt(kms, encrypt(value), decryption());
+      expect(decrypted).toEqual(value);
+      expect(responses.map((r) => r.outcome)).toEqual(["verified", "verified", "verified"]);
+    }
+  });
+
+  it("rejects forged partials and still decrypts with a quorum of honest ones", () => {
+    const ciphertext = encrypt({ fheType: "euint64", data: "1000" });
+    const { value, responses } = thresholdDecrypt(withStatus("malicious", "offline", "online"), ciphertext, decryption());
+    expect(responses).toEqual([
+      { guardian: "Guardian 1", outcome: "rejected" },
+      { guardian: "Guardian 2", outcome: "offline" },
+      { guardian: "Guardian 3", outcome: "verified" },
+    ]);
+    expect(value).toBeNull();
+
+    expect(thresholdDecrypt(withStatus("malicious", "online", "online"), ciphertext, decryption()).value).toEqual({
+      fheType: "euint64",
+      data: "1000",
+    });
+  });
+
+  it("wraps a homomorphic subtraction below zero like the EVM", () => {
+    const operands = [encrypt({ fheType: "euint8", data: "3" }), encrypt({ fheType: "euint8", data: "5" })];
+    const difference = evaluateEncrypted("sub", operands, kms, "");
+    if ("error" in difference) throw new Error(difference.error);
+    expect(difference.homomorphic).toBe(true);
+    expect(thresholdDecrypt(kms, difference.result, decryption()).value).toEqual({ fheType: "euint8", data: "254" });
+  });
+});
@@ -0,0 +1,180 @@
+// acl/kms.ts — The simulated network key. Inputs are Paillier-encrypted under
+// its public key, the coprocessor adds and subtracts them without decrypting,
+// and only a quorum of KMS guardians, once the ACL check has passed, can turn
+// them back into values.
+
+import type { FheOperation, FheType, TypedValue } from "./fhe";
+import { evaluate, fromBig, toBig } from "./fhe";
+import { addEncrypted, blindingFactor, encrypt, negateEncrypted, paillierKeys } from "./paillier";
+import type { PartialDecryption } from "./threshold";
+import { SECURITY_BITS, combinePartials, dealShares, entropyReader, partialDecrypt, verifyPartial } from "./threshold";
+import type { ACLAction, KMSState } from "./types";
+
+// Fixed so stored and shared sessions stay decryptable whatever the guardians'
+// shares. The real KMS key is generated by MPC and never exists in one place;
+// here it is only used to deal shares.
+const { publicKey, privateKey } = paillierKeys(
+  0xf3a32d942645d33ff79288c7b655a4689ecbfcd620367853084fec9cf694f9cfn,
+  0xf90e5e2d95479e374d5733ac3dcb3300a8733a46b91e5900eee04fa959c330cbn
+);
+
+export const KMS_PUBLIC_KEY = publicKey;
+
+// n² is 1024 bits, so every ciphertext is 128 bytes
+const CIPHERTEXT_HEX_LENGTH = 256;
+
+const toHex = (c: bigint) => `0x${c.toString(16).padStart(CIPHERTEXT_HEX_LENGTH, "0")}`;
+
+export const KMS_SIZES = [3, 4, 5, 6, 7];
+
+// Paillier only adds, so add and sub are the operations run on ciphertexts alone
+export const isHomomorphic = (op: FheOperation): boolean => op === "add" || op === "sub";
+
+// Hex digits `entropyReader` consumes for a draw of `bits`
+const digits = (bits: number) => Math.ceil(bits / 4);
+const N2_BITS = publicKey.n2.toString(2).length;
+
+// One encryption: a blinding factor uniform modulo n
+const ENCRYPTION_HEX_LENGTH = digits(publicKey.n.toString(2).length + SECURITY_BITS);
+// One threshold decryption with the largest KMS. Each guardian draws a
+// challenge and a proof exponent, and a malicious one a forged partial.
+const DECRYPTION_HEX_LENGTH =
+  Math.max(...KMS_SIZES) * (digits(SECURITY_BITS) + digits(N2_BITS + 2 * SECURITY_BITS) + CIPHERTEXT_HEX_LENGTH);
+// Dealing shares: threshold - 1 coefficients below n·λ and a verification base below n²
+const dealingHexLength = (threshold: number) =>
+  (threshold - 1) * digits((publicKey.n * privateKey.lambda).toString(2).length + SECURITY_BITS) + digits(N2_BITS);
+
+// Randomness for the encryptions, key dealing and share proofs `action`
+// performs, stamped on it by the caller so the reducer stays pure
+export function randomEntropy(action: ACLAction): string {
+  const length = (() => {
+    switch (action.type) {
+      case "createCiphertext":
+      case "registerCiphertext":
+        return ENCRYPTION_HEX_LENGTH;
+      case "compute":
+        // Only operations the KMS assists with decrypt each input and re-encrypt
+        return isHomomorphic(action.op) ? 0 : action.inputs.length * DECRYPTION_HEX_LENGTH + ENCRYPTION_HEX_LENGTH;
+      case "userDecrypt":
+      case "publicDecrypt":
+        return DECRYPTION_HEX_LENGTH;
+      case "configureKMS":
+        return dealingHexLength(action.threshold);
+      default:
+        return 0;
+    }
+  })();
+  const bytes = crypto.getRandomValues(new Uint8Array(Math.ceil(length / 2)));
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+// What the client SDK does before sending an input: encrypt with the public key
+export const encryptValue = (value: TypedValue, entropy: string): TypedValue => ({
+  fheType: value.fheType,
+  data: toHex(encrypt(publicKey, toBig(value), blindingFactor(publicKey, entropy))),
+});
+
+// Fresh shares of the same key for `size` guardians, all online
+export function dealKMS(size: number, threshold: number, entropy: string): KMSState {
+  const { shares, verificationBase } = dealShares(publicKey, privateKey, size, threshold, entropyReader(entropy));
+  return {
+    threshold,
+    verificationBase: verificationBase.toString(16),
+    guardians: shares.map((s) => ({
+      name: `Guardian ${s.index}`,
+      status: "online",
+      share: s.share.toString(16),
+      verificationKey: s.verificationKey.toString(16),
+    })),
+  };
+}
+
+export const defaultKMS = dealKMS(5, 3, randomEntropy({ type: "configureKMS", size: 5, threshold: 3 }));
+
+export interface GuardianResponse {
+  guardian: string;
+  outcome: "verified" | "offline" | "rejected";
+}
+
+// What the guardians answered a request, without the value they recovered
+export interface KMSAnswer {
+  responses: GuardianResponse[];
+  decrypted: boolean;
+}
+
+// Each online guardian answers with a partial decryption and its proof; a
+// malicious one sends garbage that fails the proof. The value is recovered only
+// from `threshold` verified shares. Homomorphic subtraction can leave a
+// "negative" residue (above n/2), which wraps like the EVM would.
+export function thresholdDecrypt(
+  kms: KMSState,
+  { fheType, data }: TypedValue,
+  entropy: string
+): { value: TypedValue | null; responses: GuardianResponse[] } {
+  const random = entropyReader(entropy);
+  const ciphertext = BigInt(data);
+  const count = kms.guardians.length;
+  const verificationBase = BigInt(`0x${kms.verificationBase}`);
+  const verified: PartialDecryption[] = [];
+  const responses: GuardianResponse[] = [];
+
+  for (const [i, guardian] of kms.guardians.entries()) {
+    if (guardian.status === "offline") {
+      responses.push({ guardian: guardian.name, outcome: "offline" });
+      continue;
+    }
+    const share = { index: i + 1, share: BigInt(`0x${guardian.share}`), verificationKey: BigInt(`0x${guardian.verificationKey}`) };
+    const partial = partialDecrypt(publicKey, share, verificationBase, count, ciphertext, random(SECURITY_BITS), random);
+    if (guardian.status === "malicious") partial.value = random(CIPHERTEXT_HEX_LENGTH * 4) % publicKey.n2;
+    const valid = verifyPartial(publicKey, share.verificationKey, verificationBase, count, ciphertext, partial);
+    responses.push({ guardian: guardian.name, outcome: valid ? "verified" : "rejected" });
+    if (valid) verified.push(partial);
+  }
+
+  if (verified.length < kms.threshold) return { value: null, responses };
+  const m = combinePartials(publicKey, count, verified.slice(0, kms.threshold));
+  return { value: fromBig(fheType, m > publicKey.n / 2n ? m - publicKey.n : m), responses };
+}
+
+// "euint64[0x3f9a12c8…c41e] (128 bytes)"
+export const formatCiphertext = ({ fheType, data }: TypedValue): string =>
+  `${fheType}[${data.slice(0, 10)}…${data.slice(-4)}] (${(data.length - 2) / 2} bytes)`;
+
+const PLACEHOLDER: Record<FheType, string> = {
+  ebool: "false",
+  euint8: "0",
+  euint16: "0",
+  euint32: "0",
+  euint64: "0",
+  eaddress: `0x${"0".repeat(40)}`,
+};
+
+// Runs `op` on encrypted inputs. Paillier only adds, so add and sub happen on
+// the ciphertexts themselves; everything else is handed to the KMS guardians,
+// who decrypt, evaluate and re-encrypt without the values ever leaving them
+// (the role bootstrapping plays in TFHE).
+export function evaluateEncrypted(
+  op: FheOperation,
+  inputs: TypedValue[],
+  kms: KMSState,
+  entropy: string
+): { result: TypedValue; homomorphic: boolean } | { error: string } {
+  // Operand typing does not depend on the values
+  const typed = evaluate(op, inputs.map((i) => ({ fheType: i.fheType, data: PLACEHOLDER[i.fheType] })));
+  if ("error" in typed) return typed;
+
+  if (isHomomorphic(op)) {
+    const [a, b] = inputs.map((i) => BigInt(i.data));
+    const sum = addEncrypted(publicKey, a, op === "add" ? b : negateEncrypted(publicKey, b));
+    return { result: { fheType: typed.fheType, data: toHex(sum) }, homomorphic: true };
+  }
+
+  // Each decryption gets its own slice of the command's randomness, the
+  // re-encryption whatever follows them (see `randomEntropy`)
+  const slice = (i: number) => entropy.slice(i * DECRYPTION_HEX_LENGTH, (i + 1) * DECRYPTION_HEX_LENGTH);
+  const values = inputs.map((input, i) => thresholdDecrypt(kms, input, slice(i)).value);
+  if (values.some((v) => !v)) return { error: `fewer than ${kms.threshold} KMS guardians returned a valid share` };
+  const result = evaluate(op, values as TypedValue[]);
+  if ("error" in result) return result;
+  return { result: encryptValue(result, entropy.slice(inputs.length * DECRYPTION_HEX_LENGTH)), homomorphic: false };
+}
@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import { FHELibrary, accessLevel } from "./library";
+import type { Ciphertext } from "./types";
+
+const alice = "0x1234a11ce0000000000000000000000000000001";
+const token = "0x5678c0de00000000000000000000000000000003";
+const gateway = "0x9999ca7e00000000000000000000000000000004";
+
+const cipher: Ciphertext = {
+  id: "ct_1",
+  fheType: "euint64",
+  data: "0x00",
+  owner: alice,
+  permanentACL: [],
+  grants: [],
+  transientACL: [],
+  isPublic: false,
+};
+
+const terms = { grantor: token, grantedAt: 1, expiresAt: null, reason: "" };
+
+describe("FHELibrary", () => {
+  it("allow adds a permanent grant with its terms, once", () => {
+    const granted = FHELibrary.allow(FHELibrary.allow(cipher, alice, terms), alice, { ...terms, reason: "again" });
+    expect(granted.permanentACL).toEqual([alice]);
+    expect(granted.grants).toEqual([{ address: alice, ...terms, reason: "again" }]);
+    expect(cipher.permanentACL).toEqual([]);
+  });
+
+  it("allowThis grants the contract to itself without expiry", () => {
+    const granted = FHELibrary.allowThis(cipher, token, 7);
+    expect(granted.permanentACL).toEqual([token]);
+    expect(granted.grants).toEqual([{ address: token, grantor: token, grantedAt: 7, expiresAt: null, reason: "" }]);
+  });
+
+  it("allowTransient only touches the transient list, which clearTransient empties", () => {
+    const granted = FHELibrary.allowTransient(cipher, gateway);
+    expect(granted.transientACL).toEqual([gateway]);
+    expect(granted.permanentACL).toEqual([]);
+    expect(FHELibrary.clearTransient(granted).transientACL).toEqual([]);
+  });
+
+  it("makePubliclyDecryptable flags the handle without granting anyone", () => {
+    const published = FHELibrary.makePubliclyDecryptable(cipher);
+    expect(published.isPublic).toBe(true);
+    expect(FHELibrary.isAllowed(published, alice)).toBe(false);
+    expect(accessLevel(published, alice)).toBe("public");
+  });
+
+  it("isSenderAllowed accepts permanent and transient grants and nobody else", () => {
+    const granted = FHELibrary.allowTransient(FHELibrary.allow(cipher, alice, terms), token);
+    expect(FHELibrary.isSenderAllowed(granted, alice)).toBe(true);
+    expect(FHELibrary.isSenderAllowed(granted, token)).toBe(true);
+    expect(FHELibrary.isSenderAllowed(granted, gateway)).toBe(false);
+    expect(accessLevel(granted, alice)).toBe("permanent");
+    expect(accessLevel(granted, token)).toBe("transient");
+    expect(accessLevel(granted, gateway)).toBe("none");
+  });
+
+  it("revoke removes the grant and its terms", () => {
+    const revoked = FHELibrary.revoke(FHELibrary.allow(cipher, alice, terms), alice);
+    expect(revoked.permanentACL).toEqual([]);
+    expect(revoked.grants).toEqual([]);
+  });
+});
@@ -0,0 +1,60 @@
+// acl/library.ts — Pure simulation of the Zama FHE library ACL functions
+
+import type { Ciphertext, Grant } from "./types";
+
+export type GrantTerms = Omit<Grant, "address">;
+
+export const FHELibrary = {
+  // Granting again replaces the terms, e.g. to extend an expiring grant
+  allow: (cipher: Ciphertext, addr: string, terms: GrantTerms): Ciphertext => ({
+    ...cipher,
+    permanentACL: [...new Set([...cipher.permanentACL, addr])],
+    grants: [...cipher.grants.filter((g) => g.address !== addr), { address: addr, ...terms }],
+  }),
+
+  allowTransient: (cipher: Ciphertext, addr: string): Ciphertext => ({
+    ...cipher,
+    transientACL: [...new Set([...cipher.transientACL, addr])],
+  }),
+
+  // Not part of the real FHEVM ACL, which never forgets a permanent grant
+  revoke: (cipher: Ciphertext, addr: string): Ciphertext => ({
+    ...cipher,
+    permanentACL: cipher.permanentACL.filter((a) => a !== addr),
+    grants: cipher.grants.filter((g) => g.address !== addr),
+  }),
+
+  allowThis: (cipher: Ciphertext, contractAddr: string, block: number): Ciphertext =>
+    FHELibrary.allow(cipher, contractAddr, { grantor: contractAddr, grantedAt: block, expiresAt: null, reason: "" }),
+
+  makePubliclyDecryptable: (cipher: Ciphertext): Ciphertext => ({
+    ...cipher,
+    isPublic: true,
+  }),
+
+  isSenderAllowed: (cipher: Ciphertext, sender: string): boolean =>
+    cipher.permanentACL.includes(sender) || cipher.transientACL.includes(sender),
+
+  isAllowed: (cipher: Ciphertext, addr: string): boolean =>
+    cipher.permanentACL.includes(addr) || cipher.transientACL.includes(addr),
+
+  // Transient storage is wiped by the EVM at the end of every transaction
+  clearTransient: (cipher: Ciphertext): Ciphertext => ({
+    ...cipher,
+    transientACL: [],
+  }),
+};
+
+// Grants on `cipher` whose expiry has been reached at `block`
+export const expiredGrants = (cipher: Ciphertext, block: number): Grant[] =>
+  cipher.grants.filter((g) => g.expiresAt !== null && g.expiresAt <= block);
+
+export type AccessLevel = "permanent" | "transient" | "public" | "none";
+
+// Strongest right `addr` holds on `cipher`, as the decrypt check would see it
+export function accessLevel(cipher: Ciphertext, addr: string): AccessLevel {
+  if (FHELibrary.isAllowed(cipher, addr)) {
+    return cipher.permanentACL.includes(addr) ? "permanent" : "transient";
+  }
+  return cipher.isPublic ? "public" : "none";
+}
@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest";
+import { addEncrypted, blindingFactor, decrypt, encrypt, modInverse, negateEncrypted, paillierKeys } from "./paillier";
+
+// Toy primes: big enough for the arithmetic, small enough to read
+const { publicKey, privateKey } = paillierKeys(1009n, 1013n);
+const { n } = publicKey;
+
+describe("Paillier", () => {
+  it("decrypts what it encrypted, whatever the blinding factor", () => {
+    for (const [m, r] of [
+      [0n, 2n],
+      [42n, 12345n],
+      [n - 1n, 98765n],
+    ]) {
+      expect(decrypt(publicKey, privateKey, encrypt(publicKey, m, r))).toBe(m);
+    }
+    expect(encrypt(publicKey, 42n, 2n)).not.toBe(encrypt(publicKey, 42n, 3n));
+  });
+
+  it("adds and subtracts under encryption", () => {
+    const a = encrypt(publicKey, 700n, 17n);
+    const b = encrypt(publicKey, 58n, 19n);
+    expect(decrypt(publicKey, privateKey, addEncrypted(publicKey, a, b))).toBe(758n);
+    expect(decrypt(publicKey, privateKey, addEncrypted(publicKey, a, negateEncrypted(publicKey, b)))).toBe(642n);
+    // Below zero wraps modulo n
+    expect(decrypt(publicKey, privateKey, addEncrypted(publicKey, b, negateEncrypted(publicKey, a)))).toBe(n - 642n);
+  });
+
+  it("draws blinding factors coprime with n", () => {
+    expect(blindingFactor(publicKey, n.toString(16))).toBe(2n);
+    expect(blindingFactor(publicKey, (1009n * 5n).toString(16))).toBe(1009n * 5n + 1n);
+  });
+
+  it("refuses to invert what has no inverse", () => {
+    expect((modInverse(3n, 7n) * 3n) % 7n).toBe(1n);
+    expect(() => modInverse(1009n, n)).toThrow("not invertible");
+  });
+});
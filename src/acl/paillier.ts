@@ -0,0 +1,66 @@
+// acl/paillier.ts — Paillier encryption over BigInt. Additively homomorphic:
+// multiplying two ciphertexts adds their plaintexts. Educational key sizes and
+// no constant-time arithmetic, so never use it to protect anything real.
+
+export interface PaillierPublicKey {
+  n: bigint;
+  n2: bigint;
+}
+
+export interface PaillierPrivateKey {
+  lambda: bigint;
+  mu: bigint;
+}
+
+const mod = (a: bigint, m: bigint) => ((a % m) + m) % m;
+
+export function modPow(base: bigint, exponent: bigint, modulus: bigint): bigint {
+  let result = 1n;
+  let b = mod(base, modulus);
+  for (let e = exponent; e > 0n; e >>= 1n) {
+    if (e & 1n) result = (result * b) % modulus;
+    b = (b * b) % modulus;
+  }
+  return result;
+}
+
+const gcd = (a: bigint, b: bigint): bigint => (b === 0n ? a : gcd(b, a % b));
+
+export function modInverse(a: bigint, m: bigint): bigint {
+  let [r0, r1] = [mod(a, m), m];
+  let [s0, s1] = [1n, 0n];
+  while (r1 !== 0n) {
+    const q = r0 / r1;
+    [r0, r1] = [r1, r0 - q * r1];
+    [s0, s1] = [s1, s0 - q * s1];
+  }
+  if (r0 !== 1n) throw new Error("not invertible");
+  return mod(s0, m);
+}
+
+// With g = n + 1, mu is simply lambda⁻¹ mod n
+export function paillierKeys(p: bigint, q: bigint): { publicKey: PaillierPublicKey; privateKey: PaillierPrivateKey } {
+  const n = p * q;
+  const lambda = ((p - 1n) * (q - 1n)) / gcd(p - 1n, q - 1n);
+  return { publicKey: { n, n2: n * n }, privateKey: { lambda, mu: modInverse(lambda, n) } };
+}
+
+// A random r coprime with n, taken from `entropy` (hex, longer than n)
+export function blindingFactor({ n }: PaillierPublicKey, entropy: string): bigint {
+  let r = mod(BigInt(`0x${entropy}`), n);
+  while (r < 2n || gcd(r, n) !== 1n) r++;
+  return r;
+}
+
+// c = g^m · r^n mod n², where g^m = 1 + m·n because g = n + 1
+export const encrypt = ({ n, n2 }: PaillierPublicKey, m: bigint, r: bigint): bigint =>
+  ((1n + mod(m, n) * n) * modPow(r, n, n2)) % n2;
+
+export const decrypt = ({ n, n2 }: PaillierPublicKey, { lambda, mu }: PaillierPrivateKey, c: bigint): bigint =>
+  (((modPow(c, lambda, n2) - 1n) / n) * mu) % n;
+
+// E(a) · E(b) = E(a + b)
+export const addEncrypted = ({ n2 }: PaillierPublicKey, a: bigint, b: bigint): bigint => (a * b) % n2;
+
+// E(a)⁻¹ = E(-a)
+export const negateEncrypted = ({ n2 }: PaillierPublicKey, c: bigint): bigint => modInverse(c, n2);
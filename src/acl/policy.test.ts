@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import { builtInRules } from "../rules";
+import { randomEntropy } from "./kms";
+import { lintPolicy } from "./policy";
+import { aclReducer, initialACLState } from "./reducer";
+import type { ACLAction, ACLState } from "./types";
+
+const alice = "0x1234a11ce0000000000000000000000000000001";
+const token = "0x5678c0de00000000000000000000000000000003";
+const gateway = "0x9999ca7e00000000000000000000000000000004";
+
+const run = (...actions: ACLAction[]): ACLState =>
+  actions.reduce(
+    (state, action) => aclReducer(state, { ...action, timestamp: "2025-01-01T00:00:00.000Z", entropy: randomEntropy(action) }),
+    initialACLState
+  );
+
+const create: ACLAction = { type: "createCiphertext", id: "ct_1", fheType: "euint64", data: "1000", owner: alice, contract: token };
+const double: ACLAction = { type: "compute", id: "ct_2", op: "add", inputs: ["ct_1", "ct_1"], caller: token };
+
+const findings = (state: ACLState) => lintPolicy(state, builtInRules).map((f) => [f.rule.id, f.ciphertext, f.event]);
+
+describe("lintPolicy", () => {
+  it("finds nothing in a well-behaved session", () => {
+    expect(findings(run(create, double, { type: "allowThis", ciphertext: "ct_2", contract: token }))).toEqual([]);
+  });
+
+  it("flags public inputs and permanent gateway grants at the event that caused them", () => {
+    const state = run(create, { type: "allow", ciphertext: "ct_1", address: gateway }, { type: "makePubliclyDecryptable", ciphertext: "ct_1" });
+    const seq = (type: string) => state.events.find((e) => e.type === type && e.changes.length > 0)!.seq;
+    expect(findings(state)).toEqual([
+      ["public-balance", "ct_1", seq("makePublic")],
+      ["gateway-permanent", "ct_1", seq("allow")],
+    ]);
+  });
+
+  it("flags derived handles without allowThis once their transaction is over", () => {
+    expect(findings(run(create, { type: "beginTx" }, double))).toEqual([]);
+    const state = run(create, { type: "beginTx" }, double, { type: "commitTx" });
+    expect(findings(state)).toEqual([["missing-allow-this", "ct_2", state.events.find((e) => e.type === "compute")!.seq]]);
+  });
+
+  it("flags public results of private inputs", () => {
+    const state = run(create, double, { type: "allowThis", ciphertext: "ct_2", contract: token }, { type: "makePubliclyDecryptable", ciphertext: "ct_2" });
+    expect(findings(state).map(([rule]) => rule)).toEqual(["public-derived"]);
+  });
+
+  it("flags computation on a passed handle unless isSenderAllowed guarded it", () => {
+    const call: ACLAction = { type: "callContract", caller: alice, contract: token, handles: ["ct_1"], allowTransient: false };
+    const allowThis: ACLAction = { type: "allowThis", ciphertext: "ct_2", contract: token };
+    const unchecked = run(create, call, double, { type: "returnCall" }, allowThis);
+    expect(findings(unchecked)).toEqual([["unchecked-sender", "ct_1", unchecked.events.find((e) => e.type === "compute")!.seq]]);
+
+    const check: ACLAction = { type: "checkSender", ciphertext: "ct_1", sender: alice, contract: token };
+    const checked = run(create, call, check, double, { type: "returnCall" }, allowThis);
+    expect(findings(checked)).toEqual([]);
+  });
+});
@@ -0,0 +1,39 @@
+// acl/policy.ts — Rule-based linter flagging risky permission patterns in the
+// current state and the events that led to it
+
+import type { ACLChange, ACLEvent, ACLState } from "./types";
+
+export type Severity = "high" | "medium" | "low";
+
+export const SEVERITIES: Severity[] = ["high", "medium", "low"];
+
+export interface Finding {
+  rule: PolicyRule;
+  ciphertext: string;
+  // Event that introduced the problem, null if it is not in the log
+  event: number | null;
+  message: string;
+}
+
+export interface PolicyRule {
+  id: string;
+  title: string;
+  severity: Severity;
+  // Why the pattern is risky and what to do instead
+  advice: string;
+  check: (state: ACLState) => Omit<Finding, "rule">[];
+}
+
+// Newest event that made a change matching `match`
+export const causeOf = (events: ACLEvent[], match: (change: ACLChange) => boolean): number | null =>
+  events.find((e) => e.changes.some(match))?.seq ?? null;
+
+// Findings of every rule, most severe first, then newest first
+export function lintPolicy(state: ACLState, rules: PolicyRule[]): Finding[] {
+  return rules
+    .flatMap((rule) => rule.check(state).map((f) => ({ ...f, rule })))
+    .sort(
+      (a, b) =>
+        SEVERITIES.indexOf(a.rule.severity) - SEVERITIES.indexOf(b.rule.severity) || (b.event ?? 0) - (a.event ?? 0)
+    );
+}
@@ -0,0 +1,188 @@
+import { describe, expect, it } from "vitest";
+import { collectUserDecryption } from "./decryption";
+import { randomEntropy } from "./kms";
+import { aclReducer, initialACLState } from "./reducer";
+import type { ACLAction, ACLState } from "./types";
+
+const alice = "0x1234a11ce0000000000000000000000000000001";
+const bob = "0x1234b0b000000000000000000000000000000002";
+const token = "0x5678c0de00000000000000000000000000000003";
+const escrow = "0x5678e5c000000000000000000000000000000007";
+const gateway = "0x9999ca7e00000000000000000000000000000004";
+const mallory = "0xbad0bad000000000000000000000000000000006";
+
+const run = (...actions: ACLAction[]): ACLState =>
+  actions.reduce(
+    (state, action) => aclReducer(state, { ...action, timestamp: "2025-01-01T00:00:00.000Z", entropy: randomEntropy(action) }),
+    initialACLState
+  );
+
+const create: ACLAction = { type: "createCiphertext", id: "ct_1", fheType: "euint64", data: "1000", owner: alice, contract: token };
+
+const cipher = (state: ACLState) => state.ciphertexts.find((c) => c.id === "ct_1")!;
+
+describe("aclReducer", () => {
+  it("creates a ciphertext granted to its owner and contract", () => {
+    const state = run(create);
+    expect(cipher(state).permanentACL).toEqual([token, alice]);
+    expect(cipher(state).data).toMatch(/^0x[0-9a-f]+$/);
+    expect(state.events.map((e) => e.type)).toEqual(["tx_end", "allow", "allow"]);
+    expect(state.tx).toBeNull();
+  });
+
+  it("allow and allowThis log permanent grants", () => {
+    const state = run(create, { type: "allow", ciphertext: "ct_1", address: bob }, { type: "allowThis", ciphertext: "ct_1", contract: escrow });
+    expect(cipher(state).permanentACL).toEqual([token, alice, bob, escrow]);
+    // Newest first; the creation's own grant event comes after these two
+    const grants = state.events.filter((e) => e.type === "allow").slice(0, 2);
+    expect(grants.map((e) => [e.actor, e.address])).toEqual([
+      ["FHE.allowThis()", escrow],
+      ["FHE.allow()", bob],
+    ]);
+    expect(grants[0].changes).toEqual([
+      { kind: "grant", ciphertext: "ct_1", list: "permanent", address: escrow, grant: cipher(state).grants.at(-1) },
+    ]);
+  });
+
+  it("logs a rejected grant whose expiry is not in the future", () => {
+    const state = run(create, { type: "allow", ciphertext: "ct_1", address: bob, expiresAt: 1 });
+    expect(cipher(state).permanentACL).not.toContain(bob);
+    expect(state.events[0].type).toBe("allow");
+    expect(state.events[0].details).toMatch(/^✗ Grant to Bob .* rejected: expiry block 1/);
+    expect(state.events[0].changes).toEqual([]);
+  });
+
+  it("allowTransient lasts until the transaction ends", () => {
+    const inside = run(create, { type: "beginTx" }, { type: "allowTransient", ciphertext: "ct_1", address: gateway });
+    expect(cipher(inside).transientACL).toEqual([gateway]);
+    expect(inside.events[0].type).toBe("allowTransient");
+
+    const after = aclReducer(inside, { type: "commitTx", timestamp: "", entropy: "" });
+    expect(cipher(after).transientACL).toEqual([]);
+    expect(after.events[0].details).toContain("1 transient grant cleared");
+  });
+
+  it("revert rolls back permanent grants made in the transaction", () => {
+    const state = run(create, { type: "beginTx" }, { type: "allow", ciphertext: "ct_1", address: bob }, { type: "revertTx" });
+    expect(cipher(state).permanentACL).toEqual([token, alice]);
+    expect(state.events[0].actor).toBe("EVM (revert)");
+  });
+
+  it("makePubliclyDecryptable opens public decryption to anyone", () => {
+    const refused = run(create, { type: "publicDecrypt", ciphertext: "ct_1", requester: mallory });
+    expect(refused.events[0].type).toBe("public_decrypt_denied");
+
+    const state = run(create, { type: "makePubliclyDecryptable", ciphertext: "ct_1" }, { type: "publicDecrypt", ciphertext: "ct_1", requester: mallory });
+    expect(cipher(state).isPublic).toBe(true);
+    expect(state.events[0].type).toBe("public_decrypt_success");
+    expect(state.events[0].details).toContain("euint64(1000)");
+  });
+
+  it("isSenderAllowed passes for granted senders and reverts for others", () => {
+    const state = run(
+      create,
+      { type: "checkSender", ciphertext: "ct_1", sender: alice, contract: token },
+      { type: "checkSender", ciphertext: "ct_1", sender: mallory, contract: token }
+    );
+    expect(state.events[1].type).toBe("sender_allowed");
+    expect(state.events[0].type).toBe("sender_denied");
+    expect(state.events[0].details).toMatch(/^✗ .*reverts "Unauthorized"/);
+  });
+
+  it("user decryption needs both the user and the contract on the ACL", () => {
+    const allowed = run(create, { type: "userDecrypt", ciphertext: "ct_1", user: alice, contract: token, signer: alice });
+    expect(allowed.events[0].type).toBe("user_decrypt_success");
+
+    const denied = run(create, { type: "userDecrypt", ciphertext: "ct_1", user: mallory, contract: token, signer: mallory });
+    expect(denied.events[0].type).toBe("user_decrypt_denied");
+    expect(denied.events[0].details).toContain("Mallory");
+    // The guardians are never asked for a refused request
+    expect(denied.events.some((e) => e.type === "kms_share")).toBe(false);
+
+    const forged = run(create, { type: "userDecrypt", ciphertext: "ct_1", user: alice, contract: token, signer: mallory });
+    expect(forged.events[0].type).toBe("user_decrypt_denied");
+  });
+
+  it("keeps a signed request's cleartext with the client and out of the state", () => {
+    const signature = { allowed: true, reason: "EIP-712 signature verified" };
+    const request: ACLAction = { type: "userDecrypt", ciphertext: "ct_1", user: alice, contract: token, signer: alice };
+    const created = run(create);
+    const { kms, value } = collectUserDecryption(created, cipher(created), alice, token, signature, randomEntropy(request));
+    expect(value).toEqual({ fheType: "euint64", data: "1000" });
+    expect(kms.decrypted).toBe(true);
+
+    const state = run(create, { ...request, eip712: { signature, kms } });
+    expect(state.events[0].type).toBe("user_decrypt_success");
+    expect(state.events.filter((e) => e.type === "kms_share")).toHaveLength(kms.responses.length);
+    expect(JSON.stringify(state)).not.toContain('"1000"');
+  });
+
+  it("never shows a value for handles imported with an unknown plaintext", () => {
+    const request: ACLAction = { type: "userDecrypt", ciphertext: "ct_1", user: alice, contract: token, signer: alice };
+    const state = run(
+      { type: "registerCiphertext", id: "ct_1", handle: `0x${"ab".repeat(30)}0500`, fheType: "euint64", owner: token },
+      { type: "allow", ciphertext: "ct_1", address: alice },
+      { type: "allowThis", ciphertext: "ct_1", contract: token },
+      request,
+      { type: "makePubliclyDecryptable", ciphertext: "ct_1" },
+      { type: "publicDecrypt", ciphertext: "ct_1", requester: bob }
+    );
+    expect(cipher(state).plaintextUnknown).toBe(true);
+    const user = state.events.find((e) => e.type === "user_decrypt_success")!;
+    expect(user.details).toContain("Plaintext unknown");
+    const signature = { allowed: true, reason: "EIP-712 signature verified" };
+    expect(collectUserDecryption(state, cipher(state), alice, token, signature, randomEntropy(request)).value).toBeNull();
+    expect(state.events[0].type).toBe("public_decrypt_success");
+    expect(state.events[0].details).not.toContain("euint64(0)");
+  });
+
+  it("refuses computation on handles the caller is not allowed on", () => {
+    const state = run(create, { type: "compute", id: "ct_2", op: "add", inputs: ["ct_1", "ct_1"], caller: escrow });
+    expect(state.events[0].type).toBe("compute_denied");
+    expect(state.ciphertexts).toHaveLength(1);
+  });
+
+  it("refuses to reuse the handle of an existing ciphertext", () => {
+    const recreated = run(create, { ...create, data: "1" });
+    expect(recreated.ciphertexts).toHaveLength(1);
+    expect(recreated.events[0].reverted).toBe(true);
+    expect(recreated.events[0].details).toMatch(/^✗ Ciphertext not created/);
+
+    const computed = run(create, { type: "compute", id: "ct_1", op: "add", inputs: ["ct_1", "ct_1"], caller: token });
+    expect(computed.ciphertexts).toHaveLength(1);
+    expect(cipher(computed).derivedFrom).toBeUndefined();
+    expect(computed.events[0].type).toBe("compute_denied");
+  });
+
+  it("stamps enough randomness for a KMS-assisted operation with the largest KMS", () => {
+    const flag: ACLAction = { type: "createCiphertext", id: "ct_0", fheType: "ebool", data: "true", owner: alice, contract: token };
+    const state = run(
+      create,
+      flag,
+      { type: "configureKMS", size: 7, threshold: 6 },
+      { type: "setGuardianStatus", guardian: 0, status: "malicious" },
+      { type: "compute", id: "ct_2", op: "select", inputs: ["ct_0", "ct_1", "ct_1"], caller: token }
+    );
+    expect(state.events.find((e) => e.type === "compute")?.details).toContain("KMS-assisted (decrypt → compute → re-encrypt)");
+  });
+
+  it("rejects revokes under the immutable model", () => {
+    const state = run(create, { type: "allow", ciphertext: "ct_1", address: bob }, { type: "revoke", ciphertext: "ct_1", address: bob });
+    expect(cipher(state).permanentACL).toContain(bob);
+    expect(state.events[0].type).toBe("revoke");
+    expect(state.events[0].details).toMatch(/^✗ Revoke rejected/);
+    expect(state.events[0].reverted).toBe(true);
+  });
+
+  it("reverts grants from a contract that is not on the ACL", () => {
+    const state = run(
+      create,
+      { type: "callContract", caller: alice, contract: escrow, handles: ["ct_1"], allowTransient: false },
+      { type: "allow", ciphertext: "ct_1", address: mallory }
+    );
+    expect(cipher(state).permanentACL).not.toContain(mallory);
+    expect(state.events[0].details).toMatch(/^✗ FHE\.allow\(ct_1\) reverted/);
+    expect(state.events[0].reverted).toBe(true);
+    expect(state.events[0].changes).toEqual([]);
+  });
+});
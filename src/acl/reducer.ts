@@ -0,0 +1,635 @@
+// acl/reducer.ts — Command reducer driving the ACL state and its event log
+
+import { defaultActors, describeAddress, findActor, isAddress } from "./actors";
+import { checkPublicDecryption, checkSender, checkUserDecryption, signatureBy } from "./decryption";
+import { formatValue, fromBig } from "./fhe";
+import { diffCiphertexts } from "./history";
+import type { GuardianResponse } from "./kms";
+import { dealKMS, defaultKMS, encryptValue, evaluateEncrypted, thresholdDecrypt } from "./kms";
+import type { GrantTerms } from "./library";
+import { FHELibrary, expiredGrants } from "./library";
+import type { ACLCommand, ACLEvent, ACLEventType, ACLState, Ciphertext } from "./types";
+
+export const initialACLState: ACLState = {
+  actors: defaultActors,
+  ciphertexts: [],
+  events: [],
+  tx: null,
+  calls: [],
+  kms: defaultKMS,
+  permissionModel: "immutable",
+  block: 1,
+  txCount: 0,
+};
+
+type LogEntry = Pick<ACLEvent, "type" | "ciphertext" | "actor" | "details" | "handles" | "contract" | "reverted"> & {
+  address?: string;
+};
+
+// Prepends an event that changed nothing, numbering it and tagging it with the open transaction
+const log = (state: ACLState, timestamp: string, entry: LogEntry): ACLState =>
+  record(state, state.ciphertexts, timestamp, entry);
+
+// Replaces the ciphertexts and logs the event together with the changes it made
+const record = (state: ACLState, ciphertexts: Ciphertext[], timestamp: string, entry: LogEntry): ACLState => ({
+  ...state,
+  ciphertexts,
+  events: [
+    {
+      seq: (state.events[0]?.seq ?? 0) + 1,
+      timestamp,
+      tx: state.tx?.id ?? null,
+      address: null,
+      ...entry,
+      changes: diffCiphertexts(state.ciphertexts, ciphertexts),
+    },
+    ...state.events,
+  ],
+});
+
+const txLabel = (tx: { id: string; implicit?: boolean }) => (tx.implicit ? `${tx.id} (implicit)` : tx.id);
+
+// Every ACL call runs inside a transaction. Without an open one, the call is
+// wrapped in its own implicit transaction that ends as soon as it returns.
+const enterTransaction = (state: ACLState): ACLState => {
+  if (state.tx) return state;
+  const txCount = state.txCount + 1;
+  return { ...state, tx: { id: `tx_${txCount}`, snapshot: state.ciphertexts, implicit: true }, txCount };
+};
+
+// Ends the open transaction: transient grants are cleared, and on revert every
+// permanent grant, public flag and ciphertext created since it began is undone.
+const endTransaction = (state: ACLState, reverted: boolean, timestamp: string): ACLState => {
+  if (!state.tx) return state;
+  const cleared = state.ciphertexts.reduce((n, c) => n + c.transientACL.length, 0);
+  const ciphertexts = (reverted ? state.tx.snapshot : state.ciphertexts).map(FHELibrary.clearTransient);
+  const ended = record(state, ciphertexts, timestamp, {
+    type: "tx_end",
+    ciphertext: null,
+    actor: reverted ? "EVM (revert)" : "EVM (commit)",
+    details: `${txLabel(state.tx)} ${reverted ? "reverted" : "committed"} — tx ended, ${cleared} transient grant${cleared === 1 ? "" : "s"} cleared`,
+  });
+  return { ...ended, tx: null, calls: [] };
+};
+
+// An implicit transaction stays open until the outermost contract call returns
+const leaveTransaction = (state: ACLState, timestamp: string): ACLState =>
+  state.tx?.implicit && state.calls.length === 0 ? endTransaction(state, false, timestamp) : state;
+
+// Records an ACL call that changes ciphertexts, inside the open or an implicit transaction
+const transact = (state: ACLState, ciphertexts: Ciphertext[], timestamp: string, entry: LogEntry): ACLState =>
+  leaveTransaction(record(enterTransaction(state), ciphertexts, timestamp, entry), timestamp);
+
+// Applies `update` to one ciphertext, or returns null if it does not exist
+const updateCiphertext = (
+  state: ACLState,
+  id: string,
+  update: (cipher: Ciphertext) => Ciphertext
+): Ciphertext[] | null =>
+  state.ciphertexts.some((c) => c.id === id)
+    ? state.ciphertexts.map((c) => (c.id === id ? update(c) : c))
+    : null;
+
+// Inside a contract call msg.sender is the innermost contract, and the ACL
+// reverts a grant or publication of a handle that contract is not allowed on.
+// Returns null when the call may go ahead.
+const refuseSender = (
+  state: ACLState,
+  id: string,
+  call: string,
+  type: ACLEventType,
+  timestamp: string
+): ACLState | null => {
+  const frame = state.calls[state.calls.length - 1];
+  const cipher = state.ciphertexts.find((c) => c.id === id);
+  if (!frame || !cipher || FHELibrary.isAllowed(cipher, frame.contract)) return null;
+  const sender = describeAddress(state.actors, frame.contract);
+  return log(state, timestamp, {
+    type,
+    ciphertext: id,
+    actor: sender,
+    address: frame.contract,
+    details: `✗ ${call} reverted: ${sender} (msg.sender) is not allowed on ${id}`,
+    reverted: true,
+  });
+};
+
+const GUARDIAN_RESPONSES: Record<GuardianResponse["outcome"], string> = {
+  verified: "✓ Partial decryption verified against its verification key",
+  offline: "⚠ Offline, no share sent",
+  rejected: "✗ Share rejected: the Chaum–Pedersen proof does not match its verification key",
+};
+
+// One event per guardian asked for a partial decryption of `cipher`
+const logResponses = (state: ACLState, cipher: Ciphertext, responses: GuardianResponse[], timestamp: string): ACLState =>
+  responses.reduce(
+    (s, r) =>
+      log(s, timestamp, {
+        type: "kms_share",
+        ciphertext: cipher.id,
+        actor: r.guardian,
+        details: `${GUARDIAN_RESPONSES[r.outcome]} (${cipher.id})`,
+      }),
+    state
+  );
+
+const quorum = (state: ACLState, responses: GuardianResponse[]) =>
+  `${responses.filter((r) => r.outcome === "verified").length} of ${state.kms.threshold} required guardian shares`;
+
+export function aclReducer(state: ACLState, command: ACLCommand): ACLState {
+  const { timestamp, entropy } = command;
+  const describe = (address: string) => describeAddress(state.actors, address);
+
+  switch (command.type) {
+    case "addActor": {
+      const { actor } = command;
+      if (!isAddress(actor.address) || findActor(state.actors, actor.address)) return state;
+      return { ...state, actors: [...state.actors, { ...actor, address: actor.address.toLowerCase() }] };
+    }
+
+    case "updateActor":
+      return {
+        ...state,
+        actors: state.actors.map((a) =>
+          a.address === command.address ? { ...a, name: command.name, kind: command.kind } : a
+        ),
+      };
+
+    case "removeActor":
+      return { ...state, actors: state.actors.filter((a) => a.address !== command.address) };
+
+    case "createCiphertext": {
+      // A handle names one ciphertext only; reusing it would overwrite another
+      if (state.ciphertexts.some((c) => c.id === command.id)) {
+        return log(state, timestamp, {
+          type: "allow",
+          ciphertext: command.id,
+          actor: describe(command.contract),
+          address: command.contract,
+          details: `✗ Ciphertext not created: handle ${command.id} already exists`,
+          reverted: true,
+        });
+      }
+      const created: Ciphertext = {
+        id: command.id,
+        fheType: command.fheType,
+        data: encryptValue({ fheType: command.fheType, data: command.data }, entropy).data,
+        owner: command.owner,
+        permanentACL: [],
+        grants: [],
+        transientACL: [],
+        isPublic: false,
+      };
+      const withPermissions = FHELibrary.allow(FHELibrary.allowThis(created, command.contract, state.block), command.owner, {
+        grantor: command.contract,
+        grantedAt: state.block,
+        expiresAt: null,
+        reason: "",
+      });
+      const next = record(enterTransaction(state), [...state.ciphertexts, created], timestamp, {
+        type: "allow",
+        ciphertext: created.id,
+        actor: describe(command.contract),
+        address: command.contract,
+        details: `Ciphertext created: ${created.id} (${created.fheType})`,
+      });
+      return transact(next, [...state.ciphertexts, withPermissions], timestamp, {
+        type: "allow",
+        ciphertext: created.id,
+        actor: "FHE.allow()",
+        address: command.owner,
+        details: `Granted to ${describe(command.owner)} (owner) & ${describe(command.contract)} (allowThis)`,
+      });
+    }
+
+    case "registerCiphertext": {
+      if (state.ciphertexts.some((c) => c.id === command.id)) return state;
+      const registered: Ciphertext = {
+        id: command.id,
+        fheType: command.fheType,
+        // Only the chain knows the plaintext; a zero stands in for it
+        data: encryptValue(fromBig(command.fheType, 0n), entropy).data,
+        owner: command.owner,
+        permanentACL: [],
+        grants: [],
+        transientACL: [],
+        isPublic: false,
+        plaintextUnknown: true,
+      };
+      return transact(state, [...state.ciphertexts, registered], timestamp, {
+        type: "allow",
+        ciphertext: registered.id,
+        actor: "ACL import",
+        address: command.owner,
+        details: `Handle ${command.handle.slice(0, 10)}… registered as ${registered.id} (${registered.fheType}), plaintext unknown`,
+      });
+    }
+
+    case "allow":
+    case "allowThis": {
+      const address = command.type === "allow" ? command.address : command.contract;
+      const refused = refuseSender(state, command.ciphertext, `FHE.${command.type}(${command.ciphertext})`, "allow", timestamp);
+      if (refused) return refused;
+      const cipher = state.ciphertexts.find((c) => c.id === command.ciphertext);
+      if (!cipher) return state;
+      // allowThis is a contract granting itself, for as long as the handle exists
+      const terms: GrantTerms =
+        command.type === "allow"
+          ? {
+              grantor: command.grantor ?? state.calls[state.calls.length - 1]?.contract ?? cipher.owner,
+              grantedAt: state.block,
+              expiresAt: command.expiresAt ?? null,
+              reason: command.reason?.trim() ?? "",
+            }
+          : { grantor: address, grantedAt: state.block, expiresAt: null, reason: "" };
+      if (terms.expiresAt !== null && terms.expiresAt <= state.block) {
+        return log(state, timestamp, {
+          type: "allow",
+          ciphertext: cipher.id,
+          actor: `FHE.${command.type}()`,
+          address,
+          details: `✗ Grant to ${describe(address)} rejected: expiry block ${terms.expiresAt} is not after the current block ${state.block}`,
+          reverted: true,
+        });
+      }
+      const ciphertexts = state.ciphertexts.map((c) => (c.id === cipher.id ? FHELibrary.allow(c, address, terms) : c));
+      return transact(state, ciphertexts, timestamp, {
+        type: "allow",
+        ciphertext: cipher.id,
+        actor: `FHE.${command.type}()`,
+        address,
+        details: `Granted permanent access to ${describe(address)}${
+          terms.expiresAt === null ? "" : ` until block ${terms.expiresAt} (${terms.expiresAt - state.block} blocks)`
+        }${terms.reason ? `: ${terms.reason}` : ""}`,
+      });
+    }
+
+    case "allowTransient": {
+      const refused = refuseSender(state, command.ciphertext, `FHE.allowTransient(${command.ciphertext})`, "allowTransient", timestamp);
+      if (refused) return refused;
+      const ciphertexts = updateCiphertext(state, command.ciphertext, (c) =>
+        FHELibrary.allowTransient(c, command.address)
+      );
+      if (!ciphertexts) return state;
+      return transact(state, ciphertexts, timestamp, {
+        type: "allowTransient",
+        ciphertext: command.ciphertext,
+        actor: "FHE.allowTransient()",
+        address: command.address,
+        details: `Granted transient access to ${describe(command.address)} (EIP-1153 transient storage)`,
+      });
+    }
+
+    case "compute": {
+      const { op, caller } = command;
+      const inputs = command.inputs.map((id) => state.ciphertexts.find((c) => c.id === id));
+      if (inputs.some((c) => !c)) return state;
+      const operands = inputs as Ciphertext[];
+      const call = `FHE.${op}(${command.inputs.join(", ")})`;
+      if (state.ciphertexts.some((c) => c.id === command.id)) {
+        return log(state, timestamp, {
+          type: "compute_denied",
+          ciphertext: command.id,
+          actor: describe(caller),
+          address: caller,
+          details: `✗ ${call} rejected: result handle ${command.id} already exists`,
+        });
+      }
+
+      // The coprocessor refuses to compute on a handle the caller may not use
+      const forbidden = operands.filter((c) => !FHELibrary.isAllowed(c, caller));
+      if (forbidden.length > 0) {
+        return log(state, timestamp, {
+          type: "compute_denied",
+          ciphertext: forbidden[0].id,
+          actor: describe(caller),
+          address: caller,
+          details: `✗ ${call} rejected: ${describe(caller)} is not allowed on ${forbidden.map((c) => c.id).join(", ")}`,
+        });
+      }
+
+      const evaluated = evaluateEncrypted(op, operands, state.kms, entropy);
+      if ("error" in evaluated) {
+        return log(state, timestamp, {
+          type: "compute_denied",
+          ciphertext: operands[0].id,
+          actor: describe(caller),
+          address: caller,
+          details: `✗ ${call} rejected: ${evaluated.error}`,
+        });
+      }
+
+      // Results are fresh handles: nobody, not even the caller, is on their ACL yet
+      const derived: Ciphertext = {
+        id: command.id,
+        fheType: evaluated.result.fheType,
+        data: evaluated.result.data,
+        owner: caller,
+        permanentACL: [],
+        grants: [],
+        transientACL: [],
+        isPublic: false,
+        derivedFrom: { op, inputs: command.inputs },
+        ...(operands.some((c) => c.plaintextUnknown) && { plaintextUnknown: true }),
+      };
+      return transact(state, [...state.ciphertexts, derived], timestamp, {
+        type: "compute",
+        ciphertext: derived.id,
+        actor: describe(caller),
+        address: caller,
+        details: `${call} → ${derived.id} (${derived.fheType}), ${
+          evaluated.homomorphic ? "computed homomorphically on the ciphertexts" : "KMS-assisted (decrypt → compute → re-encrypt)"
+        }. Its ACL is empty: call allowThis/allow before anyone can use it`,
+      });
+    }
+
+    case "revoke": {
+      const cipher = state.ciphertexts.find((c) => c.id === command.ciphertext);
+      if (!cipher || !cipher.permanentACL.includes(command.address)) return state;
+      if (state.permissionModel === "immutable") {
+        return log(state, timestamp, {
+          type: "revoke",
+          ciphertext: cipher.id,
+          actor: "ACL",
+          address: command.address,
+          details: `✗ Revoke rejected: ${describe(command.address)} keeps access, permanent grants are immutable`,
+          reverted: true,
+        });
+      }
+      return transact(
+        state,
+        state.ciphertexts.map((c) => (c.id === cipher.id ? FHELibrary.revoke(c, command.address) : c)),
+        timestamp,
+        {
+          type: "revoke",
+          ciphertext: cipher.id,
+          actor: "ACL.revoke()",
+          address: command.address,
+          details: `Revoked permanent access of ${describe(command.address)}`,
+        }
+      );
+    }
+
+    case "setPermissionModel":
+      return { ...state, permissionModel: command.model };
+
+    case "advanceClock": {
+      // Blocks are mined between transactions, never during one
+      if (state.tx || command.blocks < 1) return state;
+      const block = state.block + command.blocks;
+      const expired = state.ciphertexts
+        .flatMap((cipher) => expiredGrants(cipher, block).map((grant) => ({ cipher, grant })))
+        .sort((a, b) => a.grant.expiresAt! - b.grant.expiresAt!);
+      return expired.reduce(
+        (s, { cipher, grant }) =>
+          record(
+            s,
+            s.ciphertexts.map((c) => (c.id === cipher.id ? FHELibrary.revoke(c, grant.address) : c)),
+            timestamp,
+            {
+              type: "revoke",
+              ciphertext: cipher.id,
+              actor: "ACL (expiry)",
+              address: grant.address,
+              details: `⌛ Grant of ${describe(grant.address)} expired at block ${grant.expiresAt} and was revoked automatically${
+                grant.reason ? ` (${grant.reason})` : ""
+              }`,
+            }
+          ),
+        { ...state, block }
+      );
+    }
+
+    case "configureKMS": {
+      const threshold = Math.min(Math.max(command.threshold, 1), command.size);
+      return { ...state, kms: dealKMS(command.size, threshold, entropy) };
+    }
+
+    case "setGuardianStatus":
+      return {
+        ...state,
+        kms: {
+          ...state.kms,
+          guardians: state.kms.guardians.map((g, i) => (i === command.guardian ? { ...g, status: command.status } : g)),
+        },
+      };
+
+    case "makePubliclyDecryptable": {
+      const refused = refuseSender(
+        state,
+        command.ciphertext,
+        `FHE.makePubliclyDecryptable(${command.ciphertext})`,
+        "makePublic",
+        timestamp
+      );
+      if (refused) return refused;
+      const ciphertexts = updateCiphertext(state, command.ciphertext, FHELibrary.makePubliclyDecryptable);
+      if (!ciphertexts) return state;
+      return transact(state, ciphertexts, timestamp, {
+        type: "makePublic",
+        ciphertext: command.ciphertext,
+        actor: "FHE.makePubliclyDecryptable()",
+        details: `Ciphertext is now publicly decryptable off-chain`,
+      });
+    }
+
+    case "userDecrypt": {
+      const cipher = state.ciphertexts.find((c) => c.id === command.ciphertext);
+      if (!cipher) return state;
+      const { user, contract, signer, eip712 } = command;
+      const next = log(state, timestamp, {
+        type: "user_decrypt_request",
+        ciphertext: cipher.id,
+        actor: describe(user),
+        address: user,
+        details: `User decryption of ${cipher.id} via ${describe(contract)}, EIP-712 request signed by ${describe(signer)}`,
+      });
+      const signature = eip712?.signature ?? signatureBy(user, signer, state.actors);
+      const check = checkUserDecryption(cipher, user, contract, signature, state.actors);
+      if (!check.allowed) {
+        return log(next, timestamp, {
+          type: "user_decrypt_denied",
+          ciphertext: cipher.id,
+          actor: "KMS",
+          address: user,
+          details: `✗ User decryption refused: ${check.reason}.`,
+        });
+      }
+      // The guardians are only asked once the ACL check has passed. A signed
+      // request brings the answer its client collected, so the cleartext it
+      // re-encrypts never enters the state.
+      const { value, responses } = eip712 ? { value: null, ...eip712.kms } : thresholdDecrypt(state.kms, cipher, entropy);
+      const answered = logResponses(next, cipher, responses, timestamp);
+      if (!(eip712 ? eip712.kms.decrypted : value)) {
+        return log(answered, timestamp, {
+          type: "user_decrypt_denied",
+          ciphertext: cipher.id,
+          actor: "KMS",
+          address: user,
+          details: `✗ User decryption failed: ${check.reason}, but the KMS only collected ${quorum(state, responses)}.`,
+        });
+      }
+      if (cipher.plaintextUnknown) {
+        return log(answered, timestamp, {
+          type: "user_decrypt_success",
+          ciphertext: cipher.id,
+          actor: "KMS",
+          address: user,
+          details: `✓ ${check.reason}. Plaintext unknown: ${cipher.id} was imported from an ACL log`,
+        });
+      }
+      // With a real re-encryption only the user's private key reveals the value
+      if (!value) {
+        return log(answered, timestamp, {
+          type: "user_decrypt_success",
+          ciphertext: cipher.id,
+          actor: "KMS",
+          address: user,
+          details: `✓ ${check.reason}. KMS re-encrypted the result to ${describe(user)}'s public key`,
+        });
+      }
+      return log(answered, timestamp, {
+        type: "user_decrypt_success",
+        ciphertext: cipher.id,
+        actor: "KMS",
+        address: user,
+        details: `✓ ${check.reason}. KMS re-encrypted the result for ${describe(user)}: ${formatValue(value)}`,
+      });
+    }
+
+    case "publicDecrypt": {
+      const cipher = state.ciphertexts.find((c) => c.id === command.ciphertext);
+      if (!cipher) return state;
+      const { requester } = command;
+      const next = log(state, timestamp, {
+        type: "public_decrypt_request",
+        ciphertext: cipher.id,
+        actor: describe(requester),
+        address: requester,
+        details: `Public decryption of ${cipher.id} requested by ${describe(requester)} through the Gateway`,
+      });
+      const check = checkPublicDecryption(cipher);
+      if (!check.allowed) {
+        return log(next, timestamp, {
+          type: "public_decrypt_denied",
+          ciphertext: cipher.id,
+          actor: "Gateway/KMS",
+          address: requester,
+          details: `✗ Public decryption refused: ${check.reason}.`,
+        });
+      }
+      const { value, responses } = thresholdDecrypt(state.kms, cipher, entropy);
+      const answered = logResponses(next, cipher, responses, timestamp);
+      return value
+        ? log(answered, timestamp, {
+            type: "public_decrypt_success",
+            ciphertext: cipher.id,
+            actor: "Gateway/KMS",
+            address: requester,
+            details: cipher.plaintextUnknown
+              ? `✓ ${check.reason}. Cleartext unknown: ${cipher.id} was imported from an ACL log`
+              : `✓ ${check.reason}. Cleartext published: ${formatValue(value)}`,
+          })
+        : log(answered, timestamp, {
+            type: "public_decrypt_denied",
+            ciphertext: cipher.id,
+            actor: "Gateway/KMS",
+            address: requester,
+            details: `✗ Public decryption failed: ${check.reason}, but the KMS only collected ${quorum(state, responses)}.`,
+          });
+    }
+
+    case "checkSender": {
+      const cipher = state.ciphertexts.find((c) => c.id === command.ciphertext);
+      if (!cipher) return state;
+      const { sender, contract } = command;
+      const check = checkSender(cipher, sender, state.actors);
+      const guard = `require(FHE.isSenderAllowed(${cipher.id})) in ${describe(contract)}, msg.sender = ${describe(sender)}`;
+      return log(state, timestamp, {
+        type: check.allowed ? "sender_allowed" : "sender_denied",
+        ciphertext: cipher.id,
+        actor: describe(contract),
+        address: sender,
+        contract,
+        details: check.allowed
+          ? `✓ ${guard}: passes, ${check.reason}`
+          : `✗ ${guard}: reverts "Unauthorized", ${check.reason}`,
+      });
+    }
+
+    case "callContract": {
+      const { caller, contract } = command;
+      const frame = state.calls[state.calls.length - 1];
+      if (frame ? caller !== frame.contract : false) return state;
+      const handles = command.handles.filter((id) => state.ciphertexts.some((c) => c.id === id));
+      let next = enterTransaction(state);
+      if (command.allowTransient) {
+        // Granted by the caller, so they go through the same sender check
+        for (const id of handles) {
+          const refused = refuseSender(next, id, `FHE.allowTransient(${id}, ${describe(contract)})`, "allowTransient", timestamp);
+          next =
+            refused ??
+            record(
+              next,
+              next.ciphertexts.map((c) => (c.id === id ? FHELibrary.allowTransient(c, contract) : c)),
+              timestamp,
+              {
+                type: "allowTransient",
+                ciphertext: id,
+                actor: "FHE.allowTransient()",
+                address: contract,
+                details: `${describe(caller)} granted ${describe(contract)} transient access before calling it`,
+              }
+            );
+        }
+      }
+      const usable = (id: string) => FHELibrary.isAllowed(next.ciphertexts.find((c) => c.id === id)!, contract);
+      const passed = handles.map((id) => (usable(id) ? `${id} ✓` : `${id} ✗ not on its ACL`));
+      next = log({ ...next, calls: [...next.calls, { caller, contract, handles }] }, timestamp, {
+        type: "call",
+        ciphertext: handles[0] ?? null,
+        actor: describe(caller),
+        address: contract,
+        handles,
+        details: `${describe(caller)} → ${describe(contract)} (depth ${next.calls.length + 1})${
+          handles.length > 0 ? ` with ${passed.join(", ")}` : ""
+        }`,
+      });
+      return next;
+    }
+
+    case "returnCall": {
+      const frame = state.calls[state.calls.length - 1];
+      if (!frame) return state;
+      const returned = log({ ...state, calls: state.calls.slice(0, -1) }, timestamp, {
+        type: "call_return",
+        ciphertext: null,
+        actor: describe(frame.contract),
+        address: frame.caller,
+        details: `${describe(frame.contract)} returned to ${describe(frame.caller)}`,
+      });
+      return leaveTransaction(returned, timestamp);
+    }
+
+    case "beginTx": {
+      if (state.tx) return state;
+      const txCount = state.txCount + 1;
+      const id = `tx_${txCount}`;
+      return log({ ...state, tx: { id, snapshot: state.ciphertexts }, txCount }, timestamp, {
+        type: "tx_begin",
+        ciphertext: null,
+        actor: "EVM",
+        details: `${id} started — transient grants last until it ends`,
+      });
+    }
+
+    case "commitTx":
+      return endTransaction(state, false, timestamp);
+
+    case "revertTx":
+      return endTransaction(state, true, timestamp);
+
+    case "loadState":
+      return command.state;
+  }
+}
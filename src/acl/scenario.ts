@@ -0,0 +1,61 @@
+// acl/scenario.ts — Scripted scenarios replayed step by step through the reducer
+
+import type { Actor } from "./actors";
+import { OUTCOME_EVENTS } from "./eventLog";
+import { randomEntropy } from "./kms";
+import { aclReducer, initialACLState } from "./reducer";
+import type { ACLAction, ACLState } from "./types";
+
+export interface ScenarioStep {
+  action: ACLAction;
+  // Narration shown while the step runs
+  note: string;
+  // For decryption, sender-check and compute steps: whether the ACL lets it through
+  expect?: "success" | "denied";
+}
+
+export interface Scenario {
+  id: string;
+  title: string;
+  description: string;
+  actors: Actor[];
+  steps: ScenarioStep[];
+}
+
+export interface StepResult {
+  ok: boolean;
+  message: string;
+}
+
+// The empty ACL state a scenario starts from
+export const scenarioState = (scenario: Scenario): ACLState => ({
+  ...initialACLState,
+  actors: scenario.actors,
+});
+
+// Applies one step and checks its expectation against the event it logged
+export function runStep(
+  state: ACLState,
+  step: ScenarioStep,
+  timestamp: string
+): { state: ACLState; result: StepResult } {
+  const next = aclReducer(state, { ...step.action, timestamp, entropy: randomEntropy(step.action) });
+  if (!step.expect) return { state: next, result: { ok: true, message: step.note } };
+
+  // Events are prepended, so the ones this step logged sit before the previous head
+  const previousHead = state.events.length > 0 ? next.events.indexOf(state.events[0]) : -1;
+  const outcome = next.events
+    .slice(0, previousHead === -1 ? next.events.length : previousHead)
+    .find((e) => OUTCOME_EVENTS[e.type]);
+  const actual = outcome ? OUTCOME_EVENTS[outcome.type] : "denied";
+  return {
+    state: next,
+    result: {
+      ok: actual === step.expect,
+      message:
+        actual === step.expect
+          ? `${step.note} — expected ${step.expect} ✓`
+          : `${step.note} — expected ${step.expect}, got ${actual}`,
+    },
+  };
+}
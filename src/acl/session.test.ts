@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { randomEntropy } from "./kms";
+import { aclReducer, initialACLState } from "./reducer";
+import { SESSION_VERSION, decodeSessionFragment, encodeSessionFragment, parseSession, serializeSession } from "./session";
+import type { Session } from "./session";
+import type { ACLAction } from "./types";
+
+const alice = "0x1234a11ce0000000000000000000000000000001";
+const token = "0x5678c0de00000000000000000000000000000003";
+
+const actions: ACLAction[] = [
+  { type: "createCiphertext", id: "ct_1", fheType: "euint64", data: "1000", owner: alice, contract: token },
+  { type: "makePubliclyDecryptable", ciphertext: "ct_1" },
+  { type: "publicDecrypt", ciphertext: "ct_1", requester: alice },
+];
+
+const session: Session = {
+  version: SESSION_VERSION,
+  state: actions.reduce(
+    (state, action) => aclReducer(state, { ...action, timestamp: "2025-01-01T00:00:00.000Z", entropy: randomEntropy(action) }),
+    initialACLState
+  ),
+  selectedCipher: "ct_1",
+};
+
+describe("session", () => {
+  it("survives a round trip through JSON", () => {
+    expect(parseSession(serializeSession(session))).toEqual(session);
+  });
+
+  it("survives a round trip through a URL fragment", async () => {
+    const fragment = await encodeSessionFragment(session);
+    expect(fragment).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(await decodeSessionFragment(fragment)).toEqual(session);
+  });
+
+  it("discards other versions, wrong shapes and garbage", async () => {
+    expect(parseSession(serializeSession({ ...session, version: SESSION_VERSION - 1 } as unknown as Session))).toBeNull();
+    expect(parseSession(JSON.stringify({ ...session, state: { ...session.state, events: null } }))).toBeNull();
+    expect(parseSession("{")).toBeNull();
+    expect(await decodeSessionFragment("not-a-session")).toBeNull();
+  });
+});
@@ -0,0 +1,70 @@
+// acl/session.ts — Serialisation of a demo session for storage and sharing
+
+import type { ACLState } from "./types";
+
+// Bumped whenever the stored state shape changes; older sessions are discarded
+export const SESSION_VERSION = 10;
+
+export interface Session {
+  version: typeof SESSION_VERSION;
+  state: ACLState;
+  selectedCipher: string | null;
+}
+
+// Shallow shape check; enough to reject stale or hand-edited payloads
+const isSession = (value: unknown): value is Session => {
+  if (typeof value !== "object" || value === null) return false;
+  const { version, state, selectedCipher } = value as Partial<Session>;
+  return (
+    version === SESSION_VERSION &&
+    typeof state === "object" &&
+    state !== null &&
+    Array.isArray(state.actors) &&
+    Array.isArray(state.ciphertexts) &&
+    Array.isArray(state.events) &&
+    Array.isArray(state.calls) &&
+    typeof state.kms === "object" &&
+    typeof state.block === "number" &&
+    (selectedCipher === null || typeof selectedCipher === "string")
+  );
+};
+
+export const serializeSession = (session: Session): string => JSON.stringify(session);
+
+export function parseSession(json: string): Session | null {
+  try {
+    const value: unknown = JSON.parse(json);
+    return isSession(value) ? value : null;
+  } catch {
+    return null;
+  }
+}
+
+const toBase64Url = (bytes: Uint8Array): string => {
+  let binary = "";
+  for (const b of bytes) binary += String.fromCharCode(b);
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+};
+
+const fromBase64Url = (text: string): Uint8Array => {
+  const binary = atob(text.replace(/-/g, "+").replace(/_/g, "/"));
+  return Uint8Array.from(binary, (c) => c.charCodeAt(0));
+};
+
+const pipe = async (bytes: Uint8Array, stream: CompressionStream | DecompressionStream) =>
+  new Uint8Array(await new Response(new Blob([bytes as BlobPart]).stream().pipeThrough(stream)).arrayBuffer());
+
+// Deflated, base64url-encoded session suitable for a URL fragment
+export async function encodeSessionFragment(session: Session): Promise<string> {
+  const json = new TextEncoder().encode(serializeSession(session));
+  return toBase64Url(await pipe(json, new CompressionStream("deflate-raw")));
+}
+
+export async function decodeSessionFragment(fragment: string): Promise<Session | null> {
+  try {
+    const json = await pipe(fromBase64Url(fragment), new DecompressionStream("deflate-raw"));
+    return parseSession(new TextDecoder().decode(json));
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import { randomEntropy } from "./kms";
+import { aclReducer, initialACLState } from "./reducer";
+import { toSolidity } from "./solidity";
+import type { ACLAction } from "./types";
+
+const alice = "0x1234a11ce0000000000000000000000000000001";
+const bob = "0x1234b0b000000000000000000000000000000002";
+const token = "0x5678c0de00000000000000000000000000000003";
+const escrow = "0x5678e5c000000000000000000000000000000007";
+const gateway = "0x9999ca7e00000000000000000000000000000004";
+const mallory = "0xbad0bad000000000000000000000000000000006";
+
+const solidityOf = (...actions: ACLAction[]) => {
+  const state = actions.reduce(
+    (s, action) => aclReducer(s, { ...action, timestamp: "2025-01-01T00:00:00.000Z", entropy: randomEntropy(action) }),
+    initialACLState
+  );
+  return toSolidity(state.events, state.actors);
+};
+
+const create: ACLAction = { type: "createCiphertext", id: "ct_1", fheType: "euint64", data: "1000", owner: alice, contract: token };
+
+describe("toSolidity", () => {
+  it("declares handles and address constants and mirrors each transaction", () => {
+    const source = solidityOf(
+      create,
+      { type: "allow", ciphertext: "ct_1", address: bob },
+      { type: "beginTx" },
+      { type: "allowTransient", ciphertext: "ct_1", address: gateway },
+      { type: "makePubliclyDecryptable", ciphertext: "ct_1" },
+      { type: "commitTx" },
+      { type: "userDecrypt", ciphertext: "ct_1", user: bob, contract: token, signer: bob }
+    );
+    expect(source).toContain('import { FHE, euint64, externalEuint64 } from "@fhevm/solidity/lib/FHE.sol";');
+    expect(source).toContain(`    address constant BOB = address(uint160(0x00${bob.slice(2)}));`);
+    expect(source).toContain("    euint64 private ct_1;");
+    expect(source).toContain("    function tx1(externalEuint64 ct_1Input, bytes calldata inputProof) external {");
+    expect(source).toContain("        ct_1 = FHE.fromExternal(ct_1Input, inputProof);");
+    expect(source).toContain("        FHE.allowThis(ct_1);\n        FHE.allow(ct_1, ALICE);");
+    expect(source).toContain("    function tx2() external {\n        FHE.allow(ct_1, BOB);\n    }");
+    expect(source).toContain("        FHE.allowTransient(ct_1, GATEWAY);\n        FHE.makePubliclyDecryptable(ct_1);");
+    expect(source).toContain("//   Bob user-decrypts ct_1 (EIP-712 signed) → granted");
+  });
+
+  it("leaves out calls that reverted", () => {
+    const source = solidityOf(
+      create,
+      { type: "callContract", caller: alice, contract: escrow, handles: ["ct_1"], allowTransient: false },
+      { type: "allowTransient", ciphertext: "ct_1", address: mallory },
+      { type: "makePubliclyDecryptable", ciphertext: "ct_1" },
+      { type: "returnCall" },
+      { type: "revoke", ciphertext: "ct_1", address: alice }
+    );
+    expect(source).not.toContain("MALLORY");
+    expect(source).not.toContain("FHE.allowTransient");
+    expect(source).not.toContain("FHE.makePubliclyDecryptable");
+    expect(source).not.toContain("FHE.revoke");
+  });
+});
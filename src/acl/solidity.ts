@@ -0,0 +1,176 @@
+// acl/solidity.ts — Renders the session's event log as the FHEVM contract that
+// would have produced it: one function per transaction, one state variable per handle
+
+import type { Actor } from "./actors";
+import { findActor } from "./actors";
+import type { FheType } from "./fhe";
+import type { ACLEvent } from "./types";
+
+const EXTERNAL_TYPE: Record<FheType, string> = {
+  ebool: "externalEbool",
+  euint8: "externalEuint8",
+  euint16: "externalEuint16",
+  euint32: "externalEuint32",
+  euint64: "externalEuint64",
+  eaddress: "externalEaddress",
+};
+
+// solc rejects 40-digit hex literals that are not EIP-55 checksummed; a leading
+// 00 makes one a plain number, which is then converted to an address
+const addressLiteral = (address: string) => `address(uint160(0x00${address.slice(2).toLowerCase()}))`;
+
+const identifier = (text: string) => text.replace(/[^A-Za-z0-9_]/g, "_").replace(/^(\d)/, "_$1");
+
+// "Bob (auditor)" → BOB_AUDITOR
+const constantName = (actors: Actor[], address: string) =>
+  identifier(
+    (findActor(actors, address)?.name ?? `ADDR_${address.slice(2, 8)}`)
+      .trim()
+      .replace(/[^A-Za-z0-9]+/g, "_")
+      .replace(/^_|_$/g, "")
+      .toUpperCase()
+  );
+
+interface SolidityFunction {
+  name: string;
+  params: string[];
+  body: string[];
+}
+
+export function toSolidity(events: ACLEvent[], actors: Actor[]): string {
+  const handles = new Map<string, FheType>();
+  const addresses = new Map<string, string>();
+  const functions = new Map<string, SolidityFunction>();
+  const offChain: string[] = [];
+
+  const ref = (address: string | null) => {
+    if (!address) return "address(0)";
+    const name = constantName(actors, address);
+    addresses.set(name, address);
+    return name;
+  };
+  const who = (address: string | null) => (address ? findActor(actors, address)?.name ?? address : "someone");
+
+  const functionFor = (event: ACLEvent): SolidityFunction => {
+    const key = event.tx ?? `call_${event.seq}`;
+    let fn = functions.get(key);
+    if (!fn) {
+      fn = { name: identifier(key.replace(/_/g, "")), params: [], body: [] };
+      functions.set(key, fn);
+    }
+    return fn;
+  };
+
+  // The log is newest first; the contract reads in the order things happened
+  for (const event of [...events].reverse()) {
+    // A reverted call left nothing behind for the contract to mirror
+    if (event.reverted) continue;
+    const handle = event.ciphertext ? identifier(event.ciphertext) : "";
+    const created = event.changes.flatMap((c) => (c.kind === "create" ? [c.ciphertext] : []));
+    created.forEach((c) => handles.set(identifier(c.id), c.fheType));
+
+    switch (event.type) {
+      case "allow": {
+        const fn = functionFor(event);
+        if (created.length > 0) {
+          const input = `${handle}Input`;
+          fn.params.push(`${EXTERNAL_TYPE[created[0].fheType]} ${input}`);
+          if (!fn.params.includes("bytes calldata inputProof")) fn.params.push("bytes calldata inputProof");
+          fn.body.push(`${handle} = FHE.fromExternal(${input}, inputProof);`);
+          break;
+        }
+        // Creation grants the contract and the owner in one step
+        for (const change of event.changes) {
+          if (change.kind !== "grant") continue;
+          // A contract granting itself is FHE.allowThis
+          const isThis = change.grant?.grantor === change.address;
+          const expiry = change.grant?.expiresAt;
+          fn.body.push(
+            isThis
+              ? `FHE.allowThis(${handle});`
+              : `FHE.allow(${handle}, ${ref(change.address)});${
+                  expiry != null ? ` // until block ${expiry} in the simulator; FHEVM grants never expire` : ""
+                }`
+          );
+        }
+        break;
+      }
+      case "allowTransient":
+        functionFor(event).body.push(`FHE.allowTransient(${handle}, ${ref(event.address)});`);
+        break;
+      case "revoke":
+        // Expiries happen outside any transaction
+        if (!event.details.startsWith("⌛")) {
+          functionFor(event).body.push(
+            `// FHE.revoke(${handle}, ${ref(event.address)}); simulator only, FHEVM grants cannot be revoked`
+          );
+        }
+        break;
+      case "makePublic":
+        functionFor(event).body.push(`FHE.makePubliclyDecryptable(${handle});`);
+        break;
+      case "compute": {
+        const derived = created[0];
+        if (!derived?.derivedFrom) break;
+        const operands = derived.derivedFrom.inputs.map(identifier).join(", ");
+        functionFor(event).body.push(`${handle} = FHE.${derived.derivedFrom.op}(${operands});`);
+        break;
+      }
+      case "compute_denied":
+        functionFor(event).body.push(`// ${event.details.replace(/^✗ /, "")}`);
+        break;
+      case "sender_allowed":
+      case "sender_denied":
+        functionFor(event).body.push(
+          `require(FHE.isSenderAllowed(${handle}), "Unauthorized"); // msg.sender = ${who(event.address)}: ${
+            event.type === "sender_allowed" ? "passes" : "reverts"
+          }`
+        );
+        break;
+      case "call":
+        functionFor(event).body.push(`// ${event.details}`);
+        break;
+      case "tx_end":
+        if (event.details.includes(" reverted ")) {
+          functionFor(event).body.push(`revert("rolled back in the demo");`);
+        }
+        break;
+      case "user_decrypt_success":
+      case "user_decrypt_denied":
+        offChain.push(
+          `${who(event.address)} user-decrypts ${handle} (EIP-712 signed) → ${event.type.endsWith("success") ? "granted" : "refused"}`
+        );
+        break;
+      case "public_decrypt_success":
+      case "public_decrypt_denied":
+        offChain.push(
+          `public decryption of ${handle} by ${who(event.address)} → ${event.type.endsWith("success") ? "granted" : "refused"}`
+        );
+        break;
+    }
+  }
+
+  const types = [...new Set([...handles.values()].flatMap((t) => [t, EXTERNAL_TYPE[t]]))].sort();
+  const lines = [
+    "// SPDX-License-Identifier: BSD-3-Clause-Clear",
+    "pragma solidity ^0.8.24;",
+    "",
+    `import { ${["FHE", ...types].join(", ")} } from "@fhevm/solidity/lib/FHE.sol";`,
+    'import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";',
+    "",
+    "// Generated from the ACL demo: each function is one transaction of the session",
+    "contract ACLDemo is SepoliaConfig {",
+    ...[...addresses].map(([name, address]) => `    address constant ${name} = ${addressLiteral(address)};`),
+    ...(addresses.size > 0 ? [""] : []),
+    ...[...handles].map(([name, type]) => `    ${type} private ${name};`),
+  ];
+  for (const fn of functions.values()) {
+    if (fn.body.length === 0) continue;
+    lines.push("", `    function ${fn.name}(${fn.params.join(", ")}) external {`, ...fn.body.map((l) => `        ${l}`), "    }");
+  }
+  lines.push("}");
+  if (offChain.length > 0) {
+    lines.push("", "// Off-chain, through the relayer SDK:", ...offChain.map((l) => `//   ${l}`));
+  }
+  return lines.join("\n") + "\n";
+}
@@ -0,0 +1,118 @@
+// acl/threshold.ts — Threshold Paillier decryption (after Shoup / Damgård–Jurik):
+// the decryption exponent is Shamir-shared over the integers, each share holder
+// produces a partial decryption with a proof, and any t valid partials combine
+// into the plaintext. Nobody ever reconstructs the key itself.
+
+import type { PaillierPrivateKey, PaillierPublicKey } from "./paillier";
+import { modInverse, modPow } from "./paillier";
+
+export interface KeyShare {
+  // Evaluation point of the sharing polynomial, 1-based
+  index: number;
+  share: bigint;
+  // verificationBase^share, published so partial decryptions can be checked
+  verificationKey: bigint;
+}
+
+export interface PartialDecryption {
+  index: number;
+  value: bigint;
+  // Chaum–Pedersen proof that `value` used the same share as `verificationKey`
+  proof: { a: bigint; b: bigint; challenge: bigint; response: bigint };
+}
+
+// Reads successive random integers of a given size from a hex string
+export function entropyReader(entropy: string): (bits: number) => bigint {
+  let offset = 0;
+  return (bits) => {
+    const length = Math.ceil(bits / 4);
+    if (offset + length > entropy.length) throw new Error("not enough entropy for this command");
+    const value = BigInt(`0x${entropy.slice(offset, offset + length)}`);
+    offset += length;
+    return value;
+  };
+}
+
+const factorial = (n: number): bigint => (n <= 1 ? 1n : BigInt(n) * factorial(n - 1));
+
+// Extra bits on random exponents so they statistically hide the shares
+export const SECURITY_BITS = 128;
+
+// Splits d (d ≡ 0 mod λ, d ≡ 1 mod n) into `count` shares, `threshold` of which decrypt
+export function dealShares(
+  publicKey: PaillierPublicKey,
+  { lambda }: PaillierPrivateKey,
+  count: number,
+  threshold: number,
+  random: (bits: number) => bigint
+): { shares: KeyShare[]; verificationBase: bigint } {
+  const { n, n2 } = publicKey;
+  const modulus = n * lambda;
+  const d = lambda * modInverse(lambda, n);
+  const bits = modulus.toString(2).length + SECURITY_BITS;
+  const coefficients = [d, ...Array.from({ length: threshold - 1 }, () => random(bits) % modulus)];
+  const verificationBase = modPow(random(n2.toString(2).length) % n2, 2n, n2);
+  const shares = Array.from({ length: count }, (_, i) => {
+    const x = BigInt(i + 1);
+    const share = coefficients.reduceRight((acc, c) => (acc * x + c) % modulus, 0n);
+    return { index: i + 1, share, verificationKey: modPow(verificationBase, share, n2) };
+  });
+  return { shares, verificationBase };
+}
+
+// c^(Δ·share), where Δ = count! keeps the Lagrange coefficients integral. The
+// proof is interactive: the verifier draws `challenge` once the node has
+// committed to a and b, both folded into one call here.
+export function partialDecrypt(
+  { n2 }: PaillierPublicKey,
+  { index, share }: KeyShare,
+  verificationBase: bigint,
+  count: number,
+  ciphertext: bigint,
+  challenge: bigint,
+  random: (bits: number) => bigint
+): PartialDecryption {
+  const base = modPow(ciphertext, factorial(count), n2);
+  const r = random(n2.toString(2).length + 2 * SECURITY_BITS);
+  return {
+    index,
+    value: modPow(base, share, n2),
+    proof: { a: modPow(verificationBase, r, n2), b: modPow(base, r, n2), challenge, response: r + challenge * share },
+  };
+}
+
+// Same exponent on both bases: v^z = a·vk^e and (c^Δ)^z = b·partial^e
+export function verifyPartial(
+  { n2 }: PaillierPublicKey,
+  verificationKey: bigint,
+  verificationBase: bigint,
+  count: number,
+  ciphertext: bigint,
+  { value, proof: { a, b, challenge, response } }: PartialDecryption
+): boolean {
+  const base = modPow(ciphertext, factorial(count), n2);
+  return (
+    modPow(verificationBase, response, n2) === (a * modPow(verificationKey, challenge, n2)) % n2 &&
+    modPow(base, response, n2) === (b * modPow(value, challenge, n2)) % n2
+  );
+}
+
+// Lagrange interpolation at 0 in the exponent: Π partial^(μ_i) = c^(Δ²·d),
+// which is 1 + Δ²·m·n mod n²
+export function combinePartials({ n, n2 }: PaillierPublicKey, count: number, partials: PartialDecryption[]): bigint {
+  const delta = factorial(count);
+  let combined = 1n;
+  for (const { index, value } of partials) {
+    let numerator = delta;
+    let denominator = 1n;
+    for (const other of partials) {
+      if (other.index === index) continue;
+      numerator *= BigInt(other.index);
+      denominator *= BigInt(other.index - index);
+    }
+    const mu = numerator / denominator;
+    const term = modPow(mu < 0n ? modInverse(value, n2) : value, mu < 0n ? -mu : mu, n2);
+    combined = (combined * term) % n2;
+  }
+  return (((combined - 1n) / n) * modInverse(delta * delta, n)) % n;
+}
@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import { randomEntropy } from "./kms";
+import { aclReducer, initialACLState } from "./reducer";
+import type { TourStep } from "./tour";
+import { evaluateStep } from "./tour";
+import type { ACLAction, ACLState } from "./types";
+
+const alice = "0x1234a11ce0000000000000000000000000000001";
+const token = "0x5678c0de00000000000000000000000000000003";
+const escrow = "0x5678e5c000000000000000000000000000000007";
+const gateway = "0x9999ca7e00000000000000000000000000000004";
+
+const play = (state: ACLState, ...actions: ACLAction[]): ACLState =>
+  actions.reduce(
+    (s, action) => aclReducer(s, { ...action, timestamp: "2025-01-01T00:00:00.000Z", entropy: randomEntropy(action) }),
+    state
+  );
+
+const created = play(initialACLState, {
+  type: "createCiphertext",
+  id: "ct_1",
+  fheType: "euint64",
+  data: "1000",
+  owner: alice,
+  contract: token,
+});
+const since = created.events[0].seq;
+
+const transient: TourStep = {
+  title: "Grant transient access",
+  body: "",
+  waitFor: { types: ["allowTransient"] },
+  check: ({ selectedCipher }, event) => event.ciphertext === selectedCipher,
+  retry: "Grant it on the ciphertext you selected.",
+};
+
+describe("evaluateStep", () => {
+  it("waits for the awaited event, then checks it", () => {
+    expect(evaluateStep(transient, { state: created, selectedCipher: "ct_1" }, since)).toEqual({ status: "waiting" });
+
+    const granted = play(created, { type: "allowTransient", ciphertext: "ct_1", address: gateway });
+    expect(evaluateStep(transient, { state: granted, selectedCipher: "ct_1" }, since)).toEqual({ status: "done" });
+    expect(evaluateStep(transient, { state: granted, selectedCipher: "ct_2" }, since)).toEqual({
+      status: "retry",
+      message: "Grant it on the ciphertext you selected.",
+    });
+  });
+
+  it("only counts events logged after the step began", () => {
+    const step: TourStep = { title: "Create", body: "", waitFor: { types: ["allow"] } };
+    expect(evaluateStep(step, { state: created, selectedCipher: null }, 0)).toEqual({ status: "done" });
+    expect(evaluateStep(step, { state: created, selectedCipher: null }, since)).toEqual({ status: "waiting" });
+  });
+
+  it("is not completed by a call that reverted", () => {
+    const reverted = play(
+      created,
+      { type: "callContract", caller: alice, contract: escrow, handles: ["ct_1"], allowTransient: false },
+      { type: "allowTransient", ciphertext: "ct_1", address: gateway }
+    );
+    expect(reverted.events[0].type).toBe("allowTransient");
+    expect(evaluateStep(transient, { state: reverted, selectedCipher: "ct_1" }, since)).toEqual({ status: "waiting" });
+  });
+
+  it("falls back to a UI condition, or to manual steps", () => {
+    const select: TourStep = { title: "Select", body: "", until: ({ selectedCipher }) => selectedCipher !== null };
+    expect(evaluateStep(select, { state: created, selectedCipher: null }, since)).toEqual({ status: "waiting" });
+    expect(evaluateStep(select, { state: created, selectedCipher: "ct_1" }, since)).toEqual({ status: "done" });
+    expect(evaluateStep({ title: "Welcome", body: "" }, { state: created, selectedCipher: null }, since)).toEqual({
+      status: "manual",
+    });
+  });
+});
@@ -0,0 +1,56 @@
+// acl/tour.ts — Guided tours: steps that wait for the user to perform an ACL
+// action and check what it did before the tour moves on
+
+import type { ACLEvent, ACLEventType, ACLState } from "./types";
+
+// What a step can look at besides the ACL state itself
+export interface TourContext {
+  state: ACLState;
+  selectedCipher: string | null;
+}
+
+export interface TourStep {
+  title: string;
+  body: string;
+  // `data-tour` attribute of the element to highlight
+  target?: string;
+  // ACL event that completes the step, optionally narrowed by `match`; a
+  // reverted call never does
+  waitFor?: { types: ACLEventType[]; match?: (event: ACLEvent) => boolean };
+  // UI condition that completes the step when there is no event to wait for
+  until?: (context: TourContext) => boolean;
+  // Must hold once the awaited event is logged; `retry` says what to do instead
+  check?: (context: TourContext, event: ACLEvent) => boolean;
+  retry?: string;
+}
+
+export interface Tour {
+  id: string;
+  title: string;
+  description: string;
+  steps: TourStep[];
+}
+
+export type TourStepStatus =
+  | { status: "manual" }
+  | { status: "waiting" }
+  | { status: "done" }
+  | { status: "retry"; message: string };
+
+// Where `step` stands given the events logged after sequence number `since`.
+// Steps with neither `waitFor` nor `until` are read and advanced by hand.
+export function evaluateStep(step: TourStep, context: TourContext, since: number): TourStepStatus {
+  if (step.waitFor) {
+    const { types, match } = step.waitFor;
+    const event = context.state.events.find(
+      (e) => e.seq > since && !e.reverted && types.includes(e.type) && (!match || match(e))
+    );
+    if (!event) return { status: "waiting" };
+    if (step.check && !step.check(context, event)) {
+      return { status: "retry", message: step.retry ?? "That didn't do what this step asks for, try again." };
+    }
+    return { status: "done" };
+  }
+  if (step.until) return step.until(context) ? { status: "done" } : { status: "waiting" };
+  return { status: "manual" };
+}
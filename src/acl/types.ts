@@ -0,0 +1,195 @@
+// acl/types.ts — State, event and command types for the ACL engine
+
+import type { Actor, ActorKind } from "./actors";
+import type { CheckResult } from "./decryption";
+import type { FheOperation, FheType } from "./fhe";
+import type { KMSAnswer } from "./kms";
+
+// Who made a permanent grant, when, and for how long. FHEVM grants never
+// expire; the expiry (a block on the simulated clock) models temporary access
+// such as an auditor's viewing window.
+export interface Grant {
+  address: string;
+  grantor: string;
+  grantedAt: number;
+  // First block at which the grant no longer counts; null for a grant that never expires
+  expiresAt: number | null;
+  reason: string;
+}
+
+export interface Ciphertext {
+  id: string;
+  fheType: FheType;
+  // Paillier ciphertext under the KMS key (hex), see `encryptValue`
+  data: string;
+  owner: string;
+  permanentACL: string[];
+  // One entry per address on `permanentACL`
+  grants: Grant[];
+  transientACL: string[];
+  isPublic: boolean;
+  // Set on handles produced by an FHE operation
+  derivedFrom?: { op: FheOperation; inputs: string[] };
+  // Set on handles registered from an imported ACL log, and on results computed
+  // from them: `data` only encrypts a placeholder, so no decryption may show it
+  plaintextUnknown?: boolean;
+}
+
+export type ACLEventType =
+  | "allow"
+  | "allowTransient"
+  | "revoke"
+  | "makePublic"
+  | "compute"
+  | "compute_denied"
+  | "user_decrypt_request"
+  | "user_decrypt_success"
+  | "user_decrypt_denied"
+  | "public_decrypt_request"
+  | "public_decrypt_success"
+  | "public_decrypt_denied"
+  | "sender_allowed"
+  | "sender_denied"
+  | "kms_share"
+  | "call"
+  | "call_return"
+  | "tx_begin"
+  | "tx_end";
+
+export interface ACLEvent {
+  // Position in the log, starting at 1 and never reused
+  seq: number;
+  // ISO 8601
+  timestamp: string;
+  type: ACLEventType;
+  // Transaction the event happened in; null for off-chain requests
+  tx: string | null;
+  ciphertext: string | null;
+  actor: string;
+  // Address the event is about: grantee, requester or caller
+  address: string | null;
+  details: string;
+  // Ciphertext changes the event caused, so any past state can be replayed
+  changes: ACLChange[];
+  // Handles a "call" event passed to the callee as arguments
+  handles?: string[];
+  // Contract running an isSenderAllowed check; `address` is then msg.sender
+  contract?: string;
+  // Set on an ACL call that reverted or was rejected, so it changed nothing
+  reverted?: true;
+}
+
+export type ACLChange =
+  | { kind: "create"; ciphertext: Ciphertext }
+  | { kind: "delete"; ciphertext: string }
+  | { kind: "grant" | "remove"; ciphertext: string; list: "permanent" | "transient"; address: string; grant?: Grant }
+  | { kind: "public"; ciphertext: string; isPublic: boolean };
+
+// A simulated transaction. Transient grants live only until it ends (EIP-1153),
+// and `snapshot` is the ciphertext state restored if it is reverted.
+export interface Transaction {
+  id: string;
+  snapshot: Ciphertext[];
+  // Opened around a single call made outside an explicit transaction
+  implicit?: boolean;
+}
+
+// A contract call in progress. Inside it the contract is msg.sender for every
+// ACL call, so it needs its own grant (transient from the caller, or allowThis)
+// before it can use a handle it was passed.
+export interface CallFrame {
+  caller: string;
+  contract: string;
+  handles: string[];
+}
+
+export type GuardianStatus = "online" | "offline" | "malicious";
+
+// One KMS node. Its key share is private to it; the verification key lets the
+// Gateway check the partial decryptions it sends.
+export interface Guardian {
+  name: string;
+  status: GuardianStatus;
+  share: string;
+  verificationKey: string;
+}
+
+// Threshold KMS: any `threshold` honest guardians can decrypt together (hex bigints)
+export interface KMSState {
+  threshold: number;
+  verificationBase: string;
+  guardians: Guardian[];
+}
+
+// FHEVM grants are immutable once written; the revocable model exists for comparison
+export type PermissionModel = "immutable" | "revocable";
+
+export interface ACLState {
+  actors: Actor[];
+  ciphertexts: Ciphertext[];
+  events: ACLEvent[];
+  tx: Transaction | null;
+  // Nested contract calls of the open transaction, outermost first
+  calls: CallFrame[];
+  kms: KMSState;
+  permissionModel: PermissionModel;
+  // Current block of the simulated clock; it only moves when advanced
+  block: number;
+  // Number of transactions started so far, used to number them
+  txCount: number;
+}
+
+// Actions a caller can request of the ACL engine
+export type ACLAction =
+  | { type: "addActor"; actor: Actor }
+  | { type: "updateActor"; address: string; name: string; kind: ActorKind }
+  | { type: "removeActor"; address: string }
+  // `data` is the plaintext input (see `encodeValue`), encrypted on the way in
+  | { type: "createCiphertext"; id: string; fheType: FheType; data: string; owner: string; contract: string }
+  | { type: "compute"; id: string; op: FheOperation; inputs: string[]; caller: string }
+  // A handle that already exists on-chain, e.g. from an imported ACL log: empty ACL, unknown plaintext
+  | { type: "registerCiphertext"; id: string; handle: string; fheType: FheType; owner: string }
+  // `grantor` defaults to msg.sender: the innermost contract of a call, else the owner
+  | {
+      type: "allow";
+      ciphertext: string;
+      address: string;
+      grantor?: string;
+      expiresAt?: number | null;
+      reason?: string;
+    }
+  | { type: "allowThis"; ciphertext: string; contract: string }
+  | { type: "allowTransient"; ciphertext: string; address: string }
+  | { type: "revoke"; ciphertext: string; address: string }
+  | { type: "setPermissionModel"; model: PermissionModel }
+  // Mines `blocks` empty blocks; grants whose expiry is reached are removed
+  | { type: "advanceClock"; blocks: number }
+  | { type: "configureKMS"; size: number; threshold: number }
+  | { type: "setGuardianStatus"; guardian: number; status: GuardianStatus }
+  | { type: "makePubliclyDecryptable"; ciphertext: string }
+  | {
+      type: "userDecrypt";
+      ciphertext: string;
+      user: string;
+      contract: string;
+      signer: string;
+      // Gateway's check of a WebCrypto-signed request and the KMS's answer the
+      // client collected for it; the cleartext stays with the client, which
+      // re-encrypts it to the user's public key
+      eip712?: { signature: CheckResult; kms: KMSAnswer };
+    }
+  | { type: "publicDecrypt"; ciphertext: string; requester: string }
+  | { type: "checkSender"; ciphertext: string; sender: string; contract: string }
+  // `caller` must be the innermost contract when a call is already in progress;
+  // `allowTransient` grants the callee each handle first, as FHE.allowTransient would
+  | { type: "callContract"; caller: string; contract: string; handles: string[]; allowTransient: boolean }
+  | { type: "returnCall" }
+  | { type: "beginTx" }
+  | { type: "commitTx" }
+  | { type: "revertTx" }
+  | { type: "loadState"; state: ACLState };
+
+// Commands accepted by `aclReducer`. The caller stamps each action with the
+// wall-clock time (ISO 8601) and fresh randomness for any encryption it
+// performs (see `randomEntropy`) so the reducer itself stays pure.
+export type ACLCommand = ACLAction & { timestamp: string; entropy: string };
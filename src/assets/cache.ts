@@ -0,0 +1,127 @@
+// assets/cache.ts — Shared, abortable loader for the images, sounds and
+// animations the views use. Each asset is fetched once per page.
+
+export type AssetKind = "image" | "audio" | "json";
+
+// What a loaded asset yields: object URLs for media, parsed JSON otherwise
+export interface AssetData {
+  image: string;
+  audio: string;
+  json: unknown;
+}
+
+export type AssetResult<K extends AssetKind = AssetKind> =
+  | { status: "loaded"; data: AssetData[K] }
+  | { status: "missing" }
+  | { status: "error"; error: Error };
+
+export type AssetState<K extends AssetKind = AssetKind> = { status: "loading" } | AssetResult<K>;
+
+export interface AssetEntry {
+  path: string;
+  kind: AssetKind;
+}
+
+interface CacheEntry {
+  promise: Promise<AssetResult>;
+  result?: AssetResult;
+  controller: AbortController;
+  users: number;
+}
+
+const cache = new Map<string, CacheEntry>();
+
+export const assetKey = (path: string, kind: AssetKind) => `${kind}:${path}`;
+
+// Public-folder paths are relative to the base URL; bundled assets (`?url`
+// imports) arrive as absolute or data: URLs
+const resolveURL = (path: string) => (/^(\/|[a-z]+:)/i.test(path) ? path : `${import.meta.env.BASE_URL}${path}`);
+
+const toError = (e: unknown) => (e instanceof Error ? e : new Error(String(e)));
+
+function canPlayThrough(url: string, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const audio = new Audio();
+    const cleanup = () => {
+      audio.removeEventListener("canplaythrough", onReady);
+      audio.removeEventListener("error", onError);
+      signal.removeEventListener("abort", onAbort);
+    };
+    const onReady = () => (cleanup(), resolve());
+    const onError = () => (cleanup(), reject(new Error("audio could not be decoded")));
+    const onAbort = () => (cleanup(), audio.removeAttribute("src"), reject(signal.reason));
+    audio.addEventListener("canplaythrough", onReady);
+    audio.addEventListener("error", onError);
+    signal.addEventListener("abort", onAbort);
+    audio.src = url;
+  });
+}
+
+async function fetchAsset(path: string, kind: AssetKind, signal: AbortSignal): Promise<AssetResult> {
+  const url = resolveURL(path);
+  try {
+    const response = await fetch(url, { signal });
+    // The dev server answers unknown paths with index.html rather than a 404
+    const html = response.headers.get("content-type")?.startsWith("text/html");
+    if (response.status === 404 || (response.ok && html)) return { status: "missing" };
+    if (!response.ok) return { status: "error", error: new Error(`${url}: HTTP ${response.status}`) };
+
+    if (kind === "json") return { status: "loaded", data: await response.json() };
+    const objectURL = URL.createObjectURL(await response.blob());
+    try {
+      if (kind === "image") {
+        const image = new Image();
+        image.src = objectURL;
+        await image.decode();
+      } else {
+        await canPlayThrough(objectURL, signal);
+      }
+    } catch (e) {
+      URL.revokeObjectURL(objectURL);
+      throw e;
+    }
+    return { status: "loaded", data: objectURL };
+  } catch (e) {
+    return { status: "error", error: toError(e) };
+  }
+}
+
+// Settled result of an asset, if it has already been loaded
+export const peekAsset = <K extends AssetKind>(path: string, kind: K): AssetResult<K> | undefined =>
+  cache.get(assetKey(path, kind))?.result as AssetResult<K> | undefined;
+
+// Starts (or joins) the load of an asset. Call `release` once the result is no
+// longer wanted; the download is aborted when nobody is waiting for it anymore.
+export function acquireAsset<K extends AssetKind>(
+  path: string,
+  kind: K
+): { result: Promise<AssetResult<K>>; release: () => void } {
+  const key = assetKey(path, kind);
+  let entry = cache.get(key);
+  if (!entry) {
+    const controller = new AbortController();
+    const created: CacheEntry = { controller, users: 0, promise: fetchAsset(path, kind, controller.signal) };
+    created.promise.then((result) => {
+      if (cache.get(key) !== created) return;
+      // Failures may be transient: forget them so the next mount retries
+      if (result.status === "error") cache.delete(key);
+      else created.result = result;
+    });
+    cache.set(key, created);
+    entry = created;
+  }
+  const acquired = entry;
+  acquired.users++;
+
+  let released = false;
+  const release = () => {
+    if (released) return;
+    released = true;
+    acquired.users--;
+    if (acquired.users === 0 && !acquired.result && cache.get(key) === acquired) {
+      acquired.controller.abort();
+      cache.delete(key);
+    }
+  };
+  return { result: acquired.promise as Promise<AssetResult<K>>, release };
+}
@@ -0,0 +1,32 @@
+// assets/manifest.ts — Every asset the animated views need, preloaded up front
+
+import type { AssetEntry } from "./cache";
+import userAnimation from "../lottie/user.json?url";
+import guardianAnimation from "../lottie/guardian.json?url";
+import gatewayAnimation from "../lottie/gateway.json?url";
+import kmsAnimation from "../lottie/kms.json?url";
+
+export const ASSETS = {
+  userAnimation: { path: userAnimation, kind: "json" },
+  guardianAnimation: { path: guardianAnimation, kind: "json" },
+  gatewayAnimation: { path: gatewayAnimation, kind: "json" },
+  kmsAnimation: { path: kmsAnimation, kind: "json" },
+  userSprite: { path: "sprites/user_walk.png", kind: "image" },
+  guardianSprite: { path: "sprites/guardian_walk.png", kind: "image" },
+  stepSound: { path: "sfx/step.wav", kind: "audio" },
+  deniedSound: { path: "sfx/dialog1.wav", kind: "audio" },
+  successSound: { path: "sfx/powerup.wav", kind: "audio" },
+} as const satisfies Record<string, AssetEntry>;
+
+export const ASSET_MANIFEST: AssetEntry[] = Object.values(ASSETS);
+
+export type SoundName = "step" | "dialog" | "powerup" | "ambiance";
+
+// Named sounds played through the audio manager. The ambiance loop is large and
+// optional, so it stays out of the preload manifest.
+export const SOUNDS: Record<SoundName, AssetEntry> = {
+  step: ASSETS.stepSound,
+  dialog: ASSETS.deniedSound,
+  powerup: ASSETS.successSound,
+  ambiance: { path: "sfx/ambiance.wav", kind: "audio" },
+};
@@ -0,0 +1,58 @@
+import type { ACLState, Actor, Challenge } from "../acl";
+
+const alice = "0x1234a11ce0000000000000000000000000000001";
+const bob = "0x1234b0b000000000000000000000000000000002";
+const auction = "0x5678a0c7100000000000000000000000000000c0";
+const gateway = "0x9999ca7e00000000000000000000000000000004";
+
+const actors: Actor[] = [
+  { address: alice, name: "Alice", kind: "eoa" },
+  { address: bob, name: "Bob", kind: "eoa" },
+  { address: auction, name: "Auction", kind: "contract" },
+  { address: gateway, name: "Gateway", kind: "gateway" },
+];
+
+const cipher = (state: ACLState, id: string) => state.ciphertexts.find((c) => c.id === id);
+
+const untouched = (state: ACLState, id: string, acl: string[]) => {
+  const c = cipher(state, id);
+  return !!c && !c.isPublic && c.transientACL.length === 0 && c.permanentACL.every((a) => acl.includes(a));
+};
+
+export const auctionRevealChallenge: Challenge = {
+  id: "auction-reveal",
+  title: "Reveal the winner, not the bids",
+  goal: "The auction is over. Make the winning bidder public and prove anyone can read it, while both bid amounts stay sealed.",
+  actors,
+  setup: [
+    { type: "createCiphertext", id: "ct_bidAlice", fheType: "euint64", data: "300", owner: alice, contract: auction },
+    { type: "createCiphertext", id: "ct_bidBob", fheType: "euint64", data: "450", owner: bob, contract: auction },
+    { type: "createCiphertext", id: "ct_winner", fheType: "eaddress", data: bob, owner: auction, contract: auction },
+  ],
+  constraints: [
+    {
+      description: "ct_winner is publicly decryptable",
+      points: 40,
+      check: ({ state }) => !!cipher(state, "ct_winner")?.isPublic,
+      explanation: "FHE.makePubliclyDecryptable() is the only way a value becomes readable by everyone.",
+    },
+    {
+      description: "Someone decrypted ct_winner through public decryption",
+      points: 20,
+      check: ({ events }) => events.some((e) => e.type === "public_decrypt_success" && e.ciphertext === "ct_winner"),
+      explanation: "Public decryption needs no ACL entry and no signature, only the public flag.",
+    },
+    {
+      description: "Alice's bid stays sealed",
+      points: 20,
+      check: ({ state }) => untouched(state, "ct_bidAlice", [alice, auction]),
+      explanation: "Revealing the winner must not reveal the amounts; keep the bids' ACLs to their owner and the auction.",
+    },
+    {
+      description: "Bob's bid stays sealed",
+      points: 20,
+      check: ({ state }) => untouched(state, "ct_bidBob", [bob, auction]),
+      explanation: "A public flag or an extra grant on a bid would leak what the winner paid.",
+    },
+  ],
+};
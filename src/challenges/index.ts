@@ -0,0 +1,6 @@
+import type { Challenge } from "../acl";
+import { auctionRevealChallenge } from "./auctionReveal";
+import { leastPrivilegeChallenge } from "./leastPrivilege";
+import { transferResultChallenge } from "./transferResult";
+
+export const builtInChallenges: Challenge[] = [transferResultChallenge, auctionRevealChallenge, leastPrivilegeChallenge];
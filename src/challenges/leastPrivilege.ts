@@ -0,0 +1,61 @@
+import { FHELibrary } from "../acl";
+import type { ACLState, Actor, Challenge } from "../acl";
+
+const alice = "0x1234a11ce0000000000000000000000000000001";
+const bob = "0x1234b0b000000000000000000000000000000002";
+const payroll = "0x5678fa1100000000000000000000000000000007";
+const mallory = "0xbad0bad000000000000000000000000000000006";
+
+const actors: Actor[] = [
+  { address: alice, name: "Alice", kind: "eoa" },
+  { address: bob, name: "Bob (auditor)", kind: "eoa" },
+  { address: payroll, name: "Payroll", kind: "contract" },
+  { address: mallory, name: "Mallory", kind: "eoa" },
+];
+
+const salary = (state: ACLState) => state.ciphertexts.find((c) => c.id === "ct_salary");
+
+const allowed = (state: ACLState, address: string) => {
+  const cipher = salary(state);
+  return !!cipher && FHELibrary.isAllowed(cipher, address);
+};
+
+export const leastPrivilegeChallenge: Challenge = {
+  id: "least-privilege",
+  title: "Clean up an over-shared salary",
+  goal: "Mallory was granted Alice's salary by mistake. Remove her while Alice, the Payroll contract and the auditor Bob keep their access.",
+  actors,
+  setup: [
+    { type: "setPermissionModel", model: "revocable" },
+    { type: "createCiphertext", id: "ct_salary", fheType: "euint32", data: "5200", owner: alice, contract: payroll },
+    { type: "allow", ciphertext: "ct_salary", address: bob },
+    { type: "allow", ciphertext: "ct_salary", address: mallory },
+  ],
+  constraints: [
+    {
+      description: "Mallory can no longer use ct_salary",
+      points: 40,
+      check: ({ state }) => !allowed(state, mallory),
+      explanation: "Under the revocable model FHE.revoke() removes a permanent grant; under the immutable one it would be stuck.",
+    },
+    {
+      description: "Mallory's decryption attempt is refused",
+      points: 20,
+      check: ({ events }) =>
+        events.some((e) => e.type === "user_decrypt_denied" && e.ciphertext === "ct_salary" && e.address === mallory),
+      explanation: "Check your fix the way an attacker would: the KMS must refuse her request.",
+    },
+    {
+      description: "Alice and Bob still have access",
+      points: 20,
+      check: ({ state }) => allowed(state, alice) && allowed(state, bob),
+      explanation: "Least privilege means removing only what is wrong, not everyone.",
+    },
+    {
+      description: "Payroll is still on the ACL",
+      points: 20,
+      check: ({ state }) => allowed(state, payroll),
+      explanation: "Without the contract on the ACL nobody can user-decrypt through it and it cannot compute on the salary.",
+    },
+  ],
+};
@@ -0,0 +1,66 @@
+import { FHELibrary } from "../acl";
+import type { ACLState, Actor, Challenge } from "../acl";
+
+const alice = "0x1234a11ce0000000000000000000000000000001";
+const bob = "0x1234b0b000000000000000000000000000000002";
+const token = "0x5678c0de00000000000000000000000000000003";
+const gateway = "0x9999ca7e00000000000000000000000000000004";
+const mallory = "0xbad0bad000000000000000000000000000000006";
+
+const actors: Actor[] = [
+  { address: alice, name: "Alice", kind: "eoa" },
+  { address: bob, name: "Bob", kind: "eoa" },
+  { address: token, name: "PrivateToken", kind: "contract" },
+  { address: gateway, name: "Gateway", kind: "gateway" },
+  { address: mallory, name: "Mallory", kind: "eoa" },
+];
+
+const result = (state: ACLState) => state.ciphertexts.find((c) => c.id === "ct_transfer");
+
+export const transferResultChallenge: Challenge = {
+  id: "transfer-result",
+  title: "Hand over the transfer result",
+  goal: "Let Bob read the transfer result without letting the Gateway keep access after the tx. The Gateway still needs it during one transaction.",
+  actors,
+  setup: [{ type: "createCiphertext", id: "ct_transfer", fheType: "euint64", data: "100", owner: alice, contract: token }],
+  constraints: [
+    {
+      description: "Bob is on the permanent ACL of ct_transfer",
+      points: 30,
+      check: ({ state }) => !!result(state)?.permanentACL.includes(bob),
+      explanation: "FHE.allow(handle, bob) is what lets Bob ask the KMS for the value in later transactions.",
+    },
+    {
+      description: "Bob decrypted ct_transfer",
+      points: 20,
+      check: ({ events }) =>
+        events.some((e) => e.type === "user_decrypt_success" && e.ciphertext === "ct_transfer" && e.address === bob),
+      explanation: "User decryption needs both Bob and PrivateToken on the ACL, plus a request Bob signed himself.",
+    },
+    {
+      description: "The Gateway got transient access to ct_transfer",
+      points: 20,
+      check: ({ events }) =>
+        events.some((e) => e.type === "allowTransient" && e.ciphertext === "ct_transfer" && e.address === gateway),
+      explanation: "FHE.allowTransient() lasts one transaction (EIP-1153), the right tool for a one-off hand-off.",
+    },
+    {
+      description: "The Gateway kept no access",
+      points: 20,
+      check: ({ state }) => {
+        const cipher = result(state);
+        return !!cipher && !state.tx && !FHELibrary.isAllowed(cipher, gateway);
+      },
+      explanation: "A permanent grant to the Gateway, or a transaction left open, would let it keep reading the handle.",
+    },
+    {
+      description: "Mallory has no access",
+      points: 10,
+      check: ({ state }) => {
+        const cipher = result(state);
+        return !!cipher && !FHELibrary.isAllowed(cipher, mallory);
+      },
+      explanation: "Every extra ACL entry is someone else who can read the balance; grant only what the goal needs.",
+    },
+  ],
+};
@@ -0,0 +1,35 @@
+import type { Actor, ActorKind } from "../acl";
+import { shortAddress } from "../acl";
+
+// Picker over the address book, optionally restricted to some actor kinds
+export function ActorSelect({
+    actors,
+    value,
+    onChange,
+    kinds,
+    id,
+}: {
+    actors: Actor[];
+    value: string;
+    onChange: (address: string) => void;
+    kinds?: ActorKind[];
+    id?: string;
+}) {
+    const options = kinds ? actors.filter((a) => kinds.includes(a.kind)) : actors;
+
+    return (
+        <select
+            id={id}
+            value={value}
+            onChange={(e) => onChange(e.target.value)}
+            className="w-full mt-1 px-3 py-2 bg-slate-700 border border-yellow-500/30 rounded text-white text-sm focus:outline-none focus:border-yellow-400"
+        >
+            {options.length === 0 && <option value="">No matching actors</option>}
+            {options.map((a) => (
+                <option key={a.address} value={a.address}>
+                    {a.name} ({a.kind}) — {shortAddress(a.address)}
+                </option>
+            ))}
+        </select>
+    );
+}
@@ -0,0 +1,111 @@
+import { useState } from "react";
+import type { Actor, ActorKind } from "../acl";
+import { ACTOR_KINDS, findActor, isAddress, randomAddress, shortAddress } from "../acl";
+
+export function AddressBook({
+    actors,
+    onAdd,
+    onUpdate,
+    onRemove,
+}: {
+    actors: Actor[];
+    onAdd: (actor: Actor) => void;
+    onUpdate: (address: string, name: string, kind: ActorKind) => void;
+    onRemove: (address: string) => void;
+}) {
+    const [name, setName] = useState("");
+    const [address, setAddress] = useState("");
+    const [kind, setKind] = useState<ActorKind>("eoa");
+    const [error, setError] = useState<string | null>(null);
+
+    const add = () => {
+        if (!name.trim()) return setError("Name is required");
+        if (!isAddress(address)) return setError("Address must be 0x followed by 40 hex characters");
+        if (findActor(actors, address)) return setError("That address is already in the address book");
+        onAdd({ name: name.trim(), address, kind });
+        setName("");
+        setAddress("");
+        setError(null);
+    };
+
+    return (
+        <div className="bg-slate-900 border-2 border-yellow-500/50 p-6 rounded-lg my-6 text-left">
+            <h2 className="text-xl font-bold mb-4 text-yellow-400">Address Book</h2>
+            <div className="space-y-2 mb-4">
+                {actors.map((a) => (
+                    <div key={a.address} className="flex items-center gap-2 text-sm">
+                        <input
+                            value={a.name}
+                            onChange={(e) => onUpdate(a.address, e.target.value, a.kind)}
+                            aria-label={`Name of ${shortAddress(a.address)}`}
+                            className="w-32 px-2 py-1 bg-slate-700 border border-slate-600 rounded text-white"
+                        />
+                        <select
+                            value={a.kind}
+                            onChange={(e) => onUpdate(a.address, a.name, e.target.value as ActorKind)}
+                            aria-label={`Kind of ${a.name}`}
+                            className="px-2 py-1 bg-slate-700 border border-slate-600 rounded text-white"
+                        >
+                            {ACTOR_KINDS.map((k) => (
+                                <option key={k.kind} value={k.kind}>
+                                    {k.label}
+                                </option>
+                            ))}
+                        </select>
+                        <span className="flex-1 font-mono text-xs text-slate-400 truncate" title={a.address}>
+                            {a.address}
+                        </span>
+                        <button
+                            onClick={() => onRemove(a.address)}
+                            className="px-2 py-1 text-red-300 hover:text-red-200"
+                            aria-label={`Delete ${a.name}`}
+                        >
+                            ✕
+                        </button>
+                    </div>
+                ))}
+            </div>
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+                <input
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    placeholder="Name"
+                    aria-label="Name of new actor"
+                    className="w-32 px-2 py-1 bg-slate-700 border border-slate-600 rounded text-white"
+                />
+                <select
+                    value={kind}
+                    onChange={(e) => setKind(e.target.value as ActorKind)}
+                    aria-label="Kind of new actor"
+                    className="px-2 py-1 bg-slate-700 border border-slate-600 rounded text-white"
+                >
+                    {ACTOR_KINDS.map((k) => (
+                        <option key={k.kind} value={k.kind}>
+                            {k.label}
+                        </option>
+                    ))}
+                </select>
+                <input
+                    value={address}
+                    onChange={(e) => setAddress(e.target.value.trim())}
+                    placeholder="0x… (20-byte hex address)"
+                    aria-label="Address of new actor"
+                    className="flex-1 min-w-0 px-2 py-1 bg-slate-700 border border-slate-600 rounded text-white font-mono text-xs"
+                />
+                <button
+                    onClick={() => setAddress(randomAddress())}
+                    className="px-2 py-1 bg-slate-700 hover:bg-slate-600 rounded"
+                >
+                    Random
+                </button>
+                <button
+                    onClick={add}
+                    className="px-3 py-1 bg-gradient-to-r from-green-500 to-emerald-600 hover:from-green-400 hover:to-emerald-500 rounded font-semibold"
+                >
+                    + Add
+                </button>
+            </div>
+            {error && <p className="text-xs text-red-300 mt-2">{error}</p>}
+        </div>
+    );
+}
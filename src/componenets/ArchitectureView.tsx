@@ -0,0 +1,163 @@
+import { useState } from "react";
+import { motion } from "framer-motion";
+import type { ACLEvent, ACLEventType, KMSState } from "../acl";
+import { isDeniedEvent } from "../acl";
+import { ASSETS, ASSET_MANIFEST } from "../assets/manifest";
+import { usePreload } from "../hooks/useAssets";
+import { AssetProgress } from "./AssetProgress";
+import { LottieAuto } from "./LottieAuto";
+import { Sprite } from "./Sprite";
+
+type Stop = "user" | "contract" | "acl" | "gateway" | "kms";
+
+const STOPS: { stop: Stop; label: string; animation?: string }[] = [
+    { stop: "user", label: "User", animation: ASSETS.userAnimation.path },
+    { stop: "contract", label: "Contract" },
+    { stop: "acl", label: "ACL", animation: ASSETS.guardianAnimation.path },
+    { stop: "gateway", label: "Gateway", animation: ASSETS.gatewayAnimation.path },
+    { stop: "kms", label: "KMS", animation: ASSETS.kmsAnimation.path },
+];
+
+const DECRYPTION: Stop[] = ["user", "contract", "acl", "gateway", "kms"];
+const CALL: Stop[] = ["user", "contract", "acl"];
+const GRANT: Stop[] = ["contract", "acl"];
+
+// Path a message takes for each kind of event; transaction markers don't move
+const ROUTES: Partial<Record<ACLEventType, Stop[]>> = {
+    allow: GRANT,
+    allowTransient: GRANT,
+    revoke: GRANT,
+    makePublic: GRANT,
+    compute: CALL,
+    compute_denied: CALL,
+    sender_allowed: CALL,
+    sender_denied: CALL,
+    user_decrypt_success: DECRYPTION,
+    user_decrypt_denied: DECRYPTION,
+    public_decrypt_success: DECRYPTION,
+    public_decrypt_denied: DECRYPTION,
+};
+
+const LEG_SECONDS = 0.6;
+
+// Horizontal centre of a stop, in percent of the lane
+const position = (stop: Stop) => (STOPS.findIndex((s) => s.stop === stop) + 0.5) * (100 / STOPS.length);
+
+// User → Contract → ACL → Gateway → KMS, with the latest event travelling along it
+export function ArchitectureView({ events, kms }: { events: ACLEvent[]; kms: KMSState }) {
+    const progress = usePreload(ASSET_MANIFEST);
+
+    return (
+        <div className="bg-slate-900 border-2 border-yellow-500/50 p-6 rounded-lg mb-6 text-left">
+            <h2 className="text-xl font-bold mb-4 text-yellow-400">Architecture</h2>
+            {progress.ready ? <Diagram events={events} kms={kms} /> : <AssetProgress progress={progress} />}
+        </div>
+    );
+}
+
+function Diagram({ events, kms }: { events: ACLEvent[]; kms: KMSState }) {
+    // Whatever was already logged when the diagram appeared is not replayed
+    const [initialHead] = useState(() => events[0]);
+    const head = events[0];
+    const route = head && head !== initialHead ? ROUTES[head.type] : undefined;
+    const denied = head ? isDeniedEvent(head) : false;
+    const path = route && denied ? route.slice(0, route.indexOf("acl") + 1) : route;
+    const legs = path ? path.length - 1 : 0;
+    // A denied message halts just short of the guardian standing on the ACL
+    const lefts = (path ?? []).map((stop, i) => `${position(stop) - (denied && i === legs ? 8 : 0)}%`);
+
+    return (
+        <>
+            <div className="grid grid-cols-5 gap-2 text-center">
+                {STOPS.map(({ stop, label, animation }) => (
+                    <div key={stop} className="flex flex-col items-center">
+                        <div className="w-16 h-16 flex items-center justify-center text-3xl">
+                            {animation ? <LottieAuto src={animation} /> : "📜"}
+                        </div>
+                        <span className="text-sm text-yellow-200">{label}</span>
+                    </div>
+                ))}
+            </div>
+            <div className="relative h-16 mt-2">
+                <div className="absolute top-1/2 left-[10%] right-[10%] border-t border-dashed border-yellow-500/40" />
+                {head && path && (
+                    <motion.div
+                        key={head.seq}
+                        className="absolute top-0 -translate-x-1/2 flex flex-col items-center"
+                        initial={{ left: lefts[0], opacity: 1 }}
+                        animate={{ left: lefts, opacity: denied ? 1 : [1, 1, 0] }}
+                        transition={{
+                            left: { duration: LEG_SECONDS * legs, ease: "linear" },
+                            opacity: { duration: LEG_SECONDS * legs + 0.6, times: [0, 0.8, 1] },
+                        }}
+                    >
+                        <Sprite src={ASSETS.userSprite.path} alt="message" className="h-10 w-auto" />
+                        <span className="text-[10px] font-mono text-yellow-300 whitespace-nowrap">{head.type}</span>
+                    </motion.div>
+                )}
+                {head && path && denied && (
+                    <div className="absolute top-0 -translate-x-1/2" style={{ left: `${position("acl")}%` }}>
+                        <motion.div
+                            key={head.seq}
+                            className="flex items-center gap-1"
+                            initial={{ scale: 0, opacity: 0 }}
+                            animate={{ scale: 1, opacity: 1, x: [0, -6, 6, -6, 0] }}
+                            transition={{ delay: LEG_SECONDS * legs, duration: 0.4 }}
+                        >
+                            <Sprite src={ASSETS.guardianSprite.path} alt="ACL guardian" className="h-14 w-auto" />
+                            <span className="text-red-400 font-bold text-sm">✋ Denied</span>
+                        </motion.div>
+                    </div>
+                )}
+            </div>
+            {head && path && (
+                <p className={`text-xs mt-2 ${denied ? "text-red-300" : "text-slate-300"}`}>{head.details}</p>
+            )}
+            <Guardians events={head && path ? events : []} kms={kms} />
+        </>
+    );
+}
+
+// The KMS guardians; after a decryption, the ones whose share was used light up
+function Guardians({ events, kms }: { events: ACLEvent[]; kms: KMSState }) {
+    // The guardians' answers are logged just before the outcome at the head
+    const end = events.findIndex((e, i) => i > 0 && e.type !== "kms_share");
+    const answers = new Map(events.slice(1, end === -1 ? 1 : end).map((e) => [e.actor, e.details]));
+
+    return (
+        <div className="mt-4 flex flex-wrap justify-end gap-3">
+            {kms.guardians.map((guardian) => {
+                const answer = answers.get(guardian.name);
+                const mark = answer ? answer.slice(0, 1) : guardian.status === "malicious" ? "😈" : "";
+                const style = !answer
+                    ? guardian.status === "offline"
+                        ? "opacity-30 grayscale"
+                        : "opacity-70"
+                    : mark === "✓"
+                      ? "ring-2 ring-green-400"
+                      : mark === "✗"
+                        ? "ring-2 ring-red-400"
+                        : "opacity-30 grayscale";
+                return (
+                    <motion.div
+                        key={guardian.name}
+                        className={`flex flex-col items-center rounded-lg p-1 ${style}`}
+                        title={answer ?? `${guardian.name}: ${guardian.status}`}
+                        animate={answer && mark === "✓" ? { scale: [1, 1.15, 1] } : { scale: 1 }}
+                        transition={{ duration: 0.5 }}
+                    >
+                        <div className="w-10 h-10">
+                            <LottieAuto src={ASSETS.guardianAnimation.path} />
+                        </div>
+                        <span className="text-[10px] text-yellow-200 whitespace-nowrap">
+                            {guardian.name} {mark}
+                        </span>
+                    </motion.div>
+                );
+            })}
+            <span className="self-center text-xs text-slate-400">
+                KMS quorum: {kms.threshold} of {kms.guardians.length}
+            </span>
+        </div>
+    );
+}
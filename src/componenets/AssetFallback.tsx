@@ -1,6 +1,16 @@
 
 
-export function AssetFallback({ label }: { label: string }) {
+export function AssetFallback({ label, error }: { label: string; error?: Error }) {
+    if (error) {
+        return (
+            <div className="p-4 bg-red-500/20 border border-red-400 rounded-lg text-center text-red-300">
+                ❗ Failed to load: <strong>{label}</strong>
+                <br />
+                <span className="text-xs opacity-80">{error.message}</span>
+            </div>
+        );
+    }
+
     return (
         <div className="p-4 bg-red-500/20 border border-red-400 rounded-lg text-center text-red-300">
             ❗ Missing asset: <strong>{label}</strong>
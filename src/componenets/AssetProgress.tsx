@@ -0,0 +1,18 @@
+import type { PreloadProgress } from "../hooks/useAssets";
+
+// Single bar for a whole manifest, shown instead of views that would otherwise
+// pop in one asset at a time
+export function AssetProgress({ progress }: { progress: PreloadProgress }) {
+    const percent = progress.total === 0 ? 100 : Math.round((progress.settled / progress.total) * 100);
+
+    return (
+        <div className="py-4" role="progressbar" aria-valuemin={0} aria-valuemax={100} aria-valuenow={percent}>
+            <div className="h-2 bg-slate-700 rounded overflow-hidden">
+                <div className="h-full bg-yellow-500 transition-all" style={{ width: `${percent}%` }} />
+            </div>
+            <p className="text-xs text-slate-400 mt-1">
+                Loading assets… {progress.settled}/{progress.total}
+            </p>
+        </div>
+    );
+}
@@ -0,0 +1,68 @@
+import { useState } from "react";
+import { useAudio } from "../hooks/useAudio";
+import { SFX } from "./SFX";
+
+// Header control: mute toggle plus a popover with volume, ambiance and quiet mode
+export function AudioControls() {
+    const audio = useAudio();
+    const [open, setOpen] = useState(false);
+
+    return (
+        <div className="relative" onKeyDown={(e) => e.key === "Escape" && setOpen(false)}>
+            <div className="flex">
+                <button
+                    onClick={() => audio.update({ muted: !audio.muted })}
+                    aria-pressed={audio.muted}
+                    title={audio.muted ? "Unmute" : "Mute"}
+                    className="px-3 py-1 bg-slate-800 hover:bg-slate-700 border border-slate-600 rounded-l text-sm"
+                >
+                    {audio.silent ? "🔇" : "🔊"}
+                </button>
+                <button
+                    onClick={() => setOpen(!open)}
+                    aria-expanded={open}
+                    aria-label="Audio settings"
+                    className="px-2 py-1 bg-slate-800 hover:bg-slate-700 border border-l-0 border-slate-600 rounded-r text-sm text-slate-300"
+                >
+                    ▾
+                </button>
+            </div>
+            {open && (
+                <div className="absolute right-0 mt-2 w-64 p-3 bg-slate-800 border border-yellow-500/40 rounded shadow-lg z-10 text-left text-sm space-y-2">
+                    <label className="block text-yellow-200">
+                        Volume: {Math.round(audio.volume * 100)}%
+                        <input
+                            type="range"
+                            min={0}
+                            max={1}
+                            step={0.05}
+                            value={audio.volume}
+                            onChange={(e) => audio.update({ volume: Number(e.target.value) })}
+                            className="w-full"
+                        />
+                    </label>
+                    <label className="flex items-center gap-2 text-slate-300">
+                        <input
+                            type="checkbox"
+                            checked={audio.ambiance}
+                            onChange={(e) => audio.update({ ambiance: e.target.checked })}
+                        />
+                        Ambiance loop
+                    </label>
+                    <label className="flex items-center gap-2 text-slate-300">
+                        <input type="checkbox" checked={audio.quiet} onChange={(e) => audio.update({ quiet: e.target.checked })} />
+                        Quiet mode
+                    </label>
+                    {audio.reducedMotion && (
+                        <p className="text-xs text-slate-400">Sound is off because reduced motion is on.</p>
+                    )}
+                    <div className="flex gap-2 pt-1">
+                        <SFX sound="step" label="Step" />
+                        <SFX sound="dialog" label="Denied" />
+                        <SFX sound="powerup" label="Success" />
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
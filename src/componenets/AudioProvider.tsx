@@ -0,0 +1,108 @@
+import { useEffect, useEffectEvent, useRef, useState } from "react";
+import type { ReactNode } from "react";
+import { acquireAsset } from "../assets/cache";
+import { SOUNDS } from "../assets/manifest";
+import type { SoundName } from "../assets/manifest";
+import { DEFAULT_AUDIO_SETTINGS, SoundContext } from "../hooks/useAudio";
+import type { AudioSettings } from "../hooks/useAudio";
+import { useMotion } from "../hooks/useMotion";
+
+const STORAGE_KEY = "zama-acl-audio";
+// The ambiance sits under the effects rather than competing with them
+const AMBIANCE_LEVEL = 0.4;
+
+function loadSettings(): AudioSettings {
+    try {
+        const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "null");
+        return { ...DEFAULT_AUDIO_SETTINGS, ...(stored && typeof stored === "object" ? stored : {}) };
+    } catch {
+        return DEFAULT_AUDIO_SETTINGS;
+    }
+}
+
+// One <audio> element per named sound, shared by everything that plays it
+export function AudioProvider({ children }: { children: ReactNode }) {
+    const [settings, setSettings] = useState(loadSettings);
+    // The OS setting or the in-app override, whichever MotionProvider applies
+    const { reduced: reducedMotion } = useMotion();
+    const elements = useRef(new Map<SoundName, HTMLAudioElement>());
+    const silent = settings.muted || settings.quiet || reducedMotion;
+    const ambianceOn = settings.ambiance && !silent;
+
+    useEffect(() => {
+        try {
+            localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+        } catch {
+            // Storage disabled: the settings last for this visit only
+        }
+    }, [settings]);
+
+    const element = async (sound: SoundName): Promise<HTMLAudioElement | null> => {
+        const existing = elements.current.get(sound);
+        if (existing) return existing;
+        const { result, release } = acquireAsset(SOUNDS[sound].path, "audio");
+        const loaded = await result;
+        release();
+        if (loaded.status !== "loaded") return null;
+        const created = elements.current.get(sound) ?? new Audio(loaded.data);
+        elements.current.set(sound, created);
+        return created;
+    };
+
+    const volumeOf = (sound: SoundName) => settings.volume * (sound === "ambiance" ? AMBIANCE_LEVEL : 1);
+
+    useEffect(() => {
+        elements.current.forEach((audio, sound) => {
+            audio.volume = settings.volume * (sound === "ambiance" ? AMBIANCE_LEVEL : 1);
+        });
+    }, [settings.volume]);
+
+    const prepareAmbiance = useEffectEvent(async () => {
+        const audio = await element("ambiance");
+        if (audio) {
+            audio.loop = true;
+            audio.volume = volumeOf("ambiance");
+        }
+        return audio;
+    });
+
+    useEffect(() => {
+        if (!ambianceOn) return;
+        let loop: HTMLAudioElement | null = null;
+        let cancelled = false;
+        // Autoplay policy rejects play() until the first user gesture, so keep
+        // retrying on gestures; play() on a playing element is a no-op
+        const start = () => loop?.play().catch(() => {});
+        document.addEventListener("pointerdown", start);
+        document.addEventListener("keydown", start);
+        prepareAmbiance().then((audio) => {
+            if (cancelled || !audio) return;
+            loop = audio;
+            start();
+        });
+        return () => {
+            cancelled = true;
+            document.removeEventListener("pointerdown", start);
+            document.removeEventListener("keydown", start);
+            loop?.pause();
+        };
+    }, [ambianceOn]);
+
+    const play = (sound: SoundName) => {
+        if (silent) return;
+        element(sound).then((audio) => {
+            if (!audio) return;
+            audio.volume = volumeOf(sound);
+            audio.currentTime = 0;
+            audio.play().catch(() => {});
+        });
+    };
+
+    const update = (changes: Partial<AudioSettings>) => setSettings((prev) => ({ ...prev, ...changes }));
+
+    return (
+        <SoundContext.Provider value={{ ...settings, reducedMotion, silent, play, update }}>
+            {children}
+        </SoundContext.Provider>
+    );
+}
@@ -0,0 +1,179 @@
+import { useState } from "react";
+import { motion } from "framer-motion";
+import type { AccessLevel, Actor, CallFrame, Ciphertext, FheOperation } from "../acl";
+import { accessLevel, describeAddress, findActor } from "../acl";
+import { ActorSelect } from "./ActorSelect";
+
+const ACCESS_BADGES: Record<AccessLevel, string> = {
+    permanent: "🔑 allowThis",
+    transient: "⏳ transient",
+    public: "🌐 public only",
+    none: "✗ not on ACL",
+};
+
+// Any operation will do to show whether the callee may touch the handle
+const touchOperation = (cipher: Ciphertext): { op: FheOperation; inputs: string[] } =>
+    cipher.fheType === "eaddress" ? { op: "eq", inputs: [cipher.id, cipher.id] } : { op: "not", inputs: [cipher.id] };
+
+// "5. Contract Calls": contract A calls B with a handle. Inside B, msg.sender is
+// B, so it can only use the handle once it is on the ACL: allowTransient from A
+// for the duration of the tx, or its own allowThis to keep it.
+export function CallStackPanel({
+    actors,
+    ciphertexts,
+    calls,
+    onCall,
+    onReturn,
+    onAllowThis,
+    onCompute,
+}: {
+    actors: Actor[];
+    ciphertexts: Ciphertext[];
+    calls: CallFrame[];
+    onCall: (caller: string, contract: string, handles: string[], allowTransient: boolean) => void;
+    onReturn: () => void;
+    onAllowThis: (ciphertext: string, contract: string) => void;
+    onCompute: (op: FheOperation, inputs: string[], caller: string) => void;
+}) {
+    const [sender, setSender] = useState("");
+    const [callee, setCallee] = useState("");
+    const [handles, setHandles] = useState<string[]>([]);
+    const [grantTransient, setGrantTransient] = useState(true);
+
+    const innermost = calls[calls.length - 1];
+    // The first call comes from a wallet; nested ones from the running contract
+    const caller =
+        innermost?.contract ?? findActor(actors, sender)?.address ?? actors.find((a) => a.kind === "eoa")?.address ?? "";
+    const callees = actors.filter((a) => a.kind === "contract" && a.address !== caller);
+    const calleeAddress = callees.find((a) => a.address === callee)?.address ?? callees[0]?.address ?? "";
+    const passed = handles.filter((id) => ciphertexts.some((c) => c.id === id));
+    const describe = (address: string) => describeAddress(actors, address);
+
+    const toggle = (id: string) =>
+        setHandles((current) => (current.includes(id) ? current.filter((h) => h !== id) : [...current, id]));
+
+    return (
+        <motion.div
+            className="mb-6 p-4 bg-slate-800 rounded border border-yellow-500/30 text-left"
+            initial={{ y: 10, opacity: 0 }}
+            animate={{ y: 0, opacity: 1 }}
+            transition={{ delay: 0.5 }}
+        >
+            <h3 className="font-semibold mb-3 text-yellow-300">5. Contract Calls</h3>
+
+            {calls.length > 0 && (
+                <div className="mb-4 space-y-2">
+                    {calls.map((frame, depth) => {
+                        const active = depth === calls.length - 1;
+                        return (
+                            <motion.div
+                                key={depth}
+                                className={`p-2 rounded border ${
+                                    active ? "border-indigo-400 bg-indigo-900/30" : "border-slate-600 bg-slate-900/40"
+                                }`}
+                                style={{ marginLeft: `${depth * 1.5}rem` }}
+                                initial={{ x: -10, opacity: 0 }}
+                                animate={{ x: 0, opacity: 1 }}
+                            >
+                                <p className="text-sm text-indigo-100">
+                                    {describe(frame.caller)} → <span className="font-semibold">{describe(frame.contract)}</span>
+                                    <span className="text-xs text-slate-400"> (depth {depth + 1})</span>
+                                </p>
+                                {frame.handles.map((id) => {
+                                    const cipher = ciphertexts.find((c) => c.id === id);
+                                    if (!cipher) return null;
+                                    const level = accessLevel(cipher, frame.contract);
+                                    return (
+                                        <div key={id} className="flex items-center gap-2 mt-1 text-xs">
+                                            <span className="font-mono text-yellow-300">{id}</span>
+                                            <span className={level === "permanent" || level === "transient" ? "text-green-300" : "text-red-300"}>
+                                                {ACCESS_BADGES[level]}
+                                            </span>
+                                            {active && (
+                                                <>
+                                                    <button
+                                                        onClick={() => {
+                                                            const { op, inputs } = touchOperation(cipher);
+                                                            onCompute(op, inputs, frame.contract);
+                                                        }}
+                                                        title={`Run an FHE operation on ${id} as ${describe(frame.contract)}`}
+                                                        className="ml-auto px-2 py-0.5 bg-teal-700 hover:bg-teal-600 rounded"
+                                                    >
+                                                        Use
+                                                    </button>
+                                                    <button
+                                                        onClick={() => onAllowThis(id, frame.contract)}
+                                                        title={`FHE.allowThis(${id}) from ${describe(frame.contract)}`}
+                                                        className="px-2 py-0.5 bg-yellow-600 hover:bg-yellow-500 rounded text-slate-900"
+                                                    >
+                                                        allowThis
+                                                    </button>
+                                                </>
+                                            )}
+                                        </div>
+                                    );
+                                })}
+                            </motion.div>
+                        );
+                    })}
+                </div>
+            )}
+
+            <div className="grid grid-cols-2 gap-3 mb-3">
+                <label className="text-sm text-yellow-200">
+                    Caller:
+                    {innermost ? (
+                        <span className="block mt-1 px-3 py-2 bg-slate-700/50 rounded text-sm text-white">{describe(caller)}</span>
+                    ) : (
+                        <ActorSelect actors={actors} value={caller} onChange={setSender} kinds={["eoa"]} />
+                    )}
+                </label>
+                <label className="text-sm text-yellow-200">
+                    Calls contract:
+                    <ActorSelect
+                        actors={actors.filter((a) => a.address !== caller)}
+                        value={calleeAddress}
+                        onChange={setCallee}
+                        kinds={["contract"]}
+                    />
+                </label>
+            </div>
+            <div className="flex flex-wrap gap-2 mb-3">
+                {ciphertexts.map((c) => (
+                    <label key={c.id} className="flex items-center gap-1 text-xs font-mono text-yellow-100">
+                        <input type="checkbox" checked={passed.includes(c.id)} onChange={() => toggle(c.id)} />
+                        {c.id}
+                    </label>
+                ))}
+            </div>
+            <label className="flex items-center gap-2 text-sm text-yellow-200 mb-3">
+                <input type="checkbox" checked={grantTransient} onChange={(e) => setGrantTransient(e.target.checked)} />
+                FHE.allowTransient(handle, callee) before calling
+            </label>
+            <div className="flex gap-2">
+                <motion.button
+                    onClick={() => onCall(caller, calleeAddress, passed, grantTransient)}
+                    disabled={!caller || !calleeAddress}
+                    className="flex-1 px-4 py-2 bg-indigo-600 hover:bg-indigo-500 disabled:opacity-40 rounded font-semibold text-sm transition"
+                    whileHover={{ scale: 1.02 }}
+                    whileTap={{ scale: 0.98 }}
+                >
+                    Call
+                </motion.button>
+                <motion.button
+                    onClick={onReturn}
+                    disabled={!innermost}
+                    className="flex-1 px-4 py-2 bg-slate-700 hover:bg-slate-600 disabled:opacity-40 border border-yellow-500/30 rounded font-semibold text-sm transition"
+                    whileHover={{ scale: 1.02 }}
+                    whileTap={{ scale: 0.98 }}
+                >
+                    Return
+                </motion.button>
+            </div>
+            <p className="text-xs text-yellow-200/60 mt-2">
+                Grants made while a call is running come from the innermost contract and revert unless it is on the
+                handle's ACL. The transaction ends when the outermost call returns.
+            </p>
+        </motion.div>
+    );
+}
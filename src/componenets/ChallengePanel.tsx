@@ -0,0 +1,86 @@
+import { useState } from "react";
+import { motion } from "framer-motion";
+import { challengeState, gradeChallenge } from "../acl";
+import type { ACLState, Challenge, ChallengeGrade } from "../acl";
+import { builtInChallenges } from "../challenges";
+
+// Challenge mode: load a starting position, solve the goal with the regular
+// controls, then submit the live state for grading
+export function ChallengePanel({ state, onState }: { state: ACLState; onState: (state: ACLState) => void }) {
+    const [selectedId, setSelectedId] = useState(builtInChallenges[0].id);
+    const [active, setActive] = useState<{ challenge: Challenge; since: number } | null>(null);
+    const [grade, setGrade] = useState<ChallengeGrade | null>(null);
+
+    const start = () => {
+        const challenge = builtInChallenges.find((c) => c.id === selectedId)!;
+        const { state: initial, since } = challengeState(challenge, new Date().toISOString());
+        setActive({ challenge, since });
+        setGrade(null);
+        onState(initial);
+    };
+
+    return (
+        <div className="bg-slate-900 border-2 border-yellow-500/50 p-6 rounded-lg mb-6 text-left">
+            <h2 className="text-xl font-bold mb-4 text-yellow-400">Challenges</h2>
+            <div className="flex gap-2 mb-3">
+                <select
+                    value={selectedId}
+                    onChange={(e) => setSelectedId(e.target.value)}
+                    aria-label="Challenge"
+                    className="flex-1 px-3 py-2 bg-slate-700 border border-yellow-500/30 rounded text-white text-sm"
+                >
+                    {builtInChallenges.map((c) => (
+                        <option key={c.id} value={c.id}>
+                            {c.title}
+                        </option>
+                    ))}
+                </select>
+                <motion.button
+                    onClick={start}
+                    className="px-4 py-2 bg-gradient-to-r from-green-500 to-emerald-600 hover:from-green-400 hover:to-emerald-500 rounded font-semibold text-sm transition"
+                    whileHover={{ scale: 1.05 }}
+                    whileTap={{ scale: 0.95 }}
+                >
+                    {active?.challenge.id === selectedId ? "Restart" : "Start"}
+                </motion.button>
+            </div>
+
+            {active && (
+                <>
+                    <p className="text-sm text-yellow-100 mb-2">🎯 {active.challenge.goal}</p>
+                    <ul className="text-xs text-slate-400 mb-3 list-disc list-inside">
+                        {active.challenge.constraints.map((c) => (
+                            <li key={c.description}>
+                                {c.description} ({c.points} pts)
+                            </li>
+                        ))}
+                    </ul>
+                    <button
+                        onClick={() => setGrade(gradeChallenge(active.challenge, state, active.since))}
+                        className="px-3 py-1 bg-yellow-500 hover:bg-yellow-400 rounded text-sm font-semibold text-slate-900"
+                    >
+                        Submit for grading
+                    </button>
+                </>
+            )}
+
+            {active && grade && (
+                <div className="mt-3 p-3 bg-slate-800 rounded">
+                    <p className={`font-bold mb-2 ${grade.score === grade.max ? "text-green-400" : "text-yellow-300"}`}>
+                        Score: {grade.score}/{grade.max}
+                    </p>
+                    <ul className="space-y-2 text-xs">
+                        {grade.results.map(({ constraint, passed }) => (
+                            <li key={constraint.description}>
+                                <span className={passed ? "text-green-400" : "text-red-400"}>
+                                    {passed ? "✓" : "✗"} {constraint.description}
+                                </span>
+                                <span className="block text-slate-400 ml-4">{constraint.explanation}</span>
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,101 @@
+import { useState } from "react";
+import { motion } from "framer-motion";
+import type { Actor, Ciphertext, FheOperation } from "../acl";
+import { FHE_OPERATIONS, findActor, isHomomorphic } from "../acl";
+import { ActorSelect } from "./ActorSelect";
+
+// "4. Compute on Encrypted Values": runs an FHE operation as a contract and
+// produces a new handle whose ACL starts out empty
+export function ComputePanel({
+    ciphertexts,
+    actors,
+    onCompute,
+}: {
+    ciphertexts: Ciphertext[];
+    actors: Actor[];
+    onCompute: (op: FheOperation, inputs: string[], caller: string) => void;
+}) {
+    const [caller, setCaller] = useState("");
+    const [op, setOp] = useState<FheOperation>("add");
+    const [inputs, setInputs] = useState<string[]>([]);
+
+    const callerAddress =
+        findActor(actors, caller)?.address ?? actors.find((a) => a.kind === "contract")?.address ?? "";
+    const { arity } = FHE_OPERATIONS.find((o) => o.op === op)!;
+    // Operands default to the ciphertext list order when not picked yet
+    const operands = Array.from({ length: arity }, (_, i) =>
+        ciphertexts.some((c) => c.id === inputs[i]) ? inputs[i] : ciphertexts[i % ciphertexts.length]?.id ?? ""
+    );
+    const labels = op === "select" ? ["cond", "a", "b"] : ["a", "b"];
+
+    return (
+        <motion.div
+            className="mb-6 p-4 bg-slate-800 rounded border border-yellow-500/30 text-left"
+            initial={{ y: 10, opacity: 0 }}
+            animate={{ y: 0, opacity: 1 }}
+            transition={{ delay: 0.45 }}
+        >
+            <h3 className="font-semibold mb-3 text-yellow-300">4. Compute on Encrypted Values</h3>
+            <div className="grid grid-cols-2 gap-3 mb-3">
+                <label className="text-sm text-yellow-200">
+                    Caller (msg.sender):
+                    <ActorSelect actors={actors} value={callerAddress} onChange={setCaller} kinds={["contract"]} />
+                </label>
+                <label className="text-sm text-yellow-200">
+                    Operation:
+                    <select
+                        value={op}
+                        onChange={(e) => setOp(e.target.value as FheOperation)}
+                        className="w-full mt-1 px-3 py-2 bg-slate-700 border border-yellow-500/30 rounded text-white text-sm focus:outline-none focus:border-yellow-400"
+                    >
+                        {FHE_OPERATIONS.map((o) => (
+                            <option key={o.op} value={o.op}>
+                                FHE.{o.op} — {o.description}
+                                {isHomomorphic(o.op) ? "" : " (KMS-assisted)"}
+                            </option>
+                        ))}
+                    </select>
+                </label>
+            </div>
+            <div className="grid grid-cols-3 gap-3 mb-3">
+                {operands.map((value, i) => (
+                    <label key={i} className="text-sm text-yellow-200">
+                        {labels[i]}:
+                        <select
+                            value={value}
+                            onChange={(e) => {
+                                const next = [...operands];
+                                next[i] = e.target.value;
+                                setInputs(next);
+                            }}
+                            className="w-full mt-1 px-3 py-2 bg-slate-700 border border-yellow-500/30 rounded text-white text-sm font-mono focus:outline-none focus:border-yellow-400"
+                        >
+                            {ciphertexts.map((c) => (
+                                <option key={c.id} value={c.id}>
+                                    {c.id} ({c.fheType})
+                                </option>
+                            ))}
+                        </select>
+                    </label>
+                ))}
+            </div>
+            <motion.button
+                onClick={() => onCompute(op, operands, callerAddress)}
+                disabled={!callerAddress || operands.some((id) => !id)}
+                className="w-full px-4 py-2 bg-gradient-to-r from-teal-500 to-emerald-600 hover:from-teal-400 hover:to-emerald-500 disabled:from-slate-600 disabled:to-slate-600 rounded font-semibold text-sm transition"
+                whileHover={{ scale: 1.02 }}
+                whileTap={{ scale: 0.98 }}
+            >
+                FHE.{op}({operands.join(", ")})
+            </motion.button>
+            <p className="text-xs text-yellow-200/60 mt-2">
+                The caller must be allowed on every input. The result is a new handle with an empty ACL.
+            </p>
+            <p className="text-xs text-teal-300/80 mt-1">
+                {isHomomorphic(op)
+                    ? "Homomorphic: computed on the Paillier ciphertexts without decrypting them."
+                    : "KMS-assisted (decrypt → compute → re-encrypt): Paillier only adds, so the guardians decrypt the inputs, compute and re-encrypt the result."}
+            </p>
+        </motion.div>
+    );
+}
@@ -0,0 +1,211 @@
+import { useState } from "react";
+import { motion } from "framer-motion";
+import type { Actor, CheckResult, Ciphertext } from "../acl";
+import { aclContract, describeAddress, findActor } from "../acl";
+import type { RequestWindow, UserDecryption } from "../hooks/useUserDecryption";
+import { ActorSelect } from "./ActorSelect";
+
+type Flow = "user" | "public" | "sender";
+
+const FLOWS: { flow: Flow; label: string; rule: string }[] = [
+    {
+        flow: "user",
+        label: "User decryption",
+        rule: "The user signs an EIP-712 request with their key; the Gateway verifies it, then the KMS re-encrypts to the user's public key only if the user AND the contract are on the ACL.",
+    },
+    {
+        flow: "public",
+        label: "Public decryption",
+        rule: "Anyone may ask the Gateway/KMS, but only for handles passed to FHE.makePubliclyDecryptable().",
+    },
+    {
+        flow: "sender",
+        label: "isSenderAllowed",
+        rule: "On-chain guard: require(FHE.isSenderAllowed(handle)) reverts unless msg.sender is on the ACL.",
+    },
+];
+
+// "6. Test Decryption Authorization": the three ways an ACL entry is checked
+export function DecryptionPanel({
+    cipher,
+    actors,
+    disabled,
+    onUserDecrypt,
+    onOpen,
+    onPublicDecrypt,
+    onCheckSender,
+}: {
+    cipher: Ciphertext | undefined;
+    actors: Actor[];
+    disabled: boolean;
+    onUserDecrypt: (user: string, contract: string, signer: string, validity: RequestWindow) => Promise<UserDecryption | null>;
+    onOpen: (result: UserDecryption, holder: string) => Promise<CheckResult>;
+    onPublicDecrypt: (requester: string) => void;
+    onCheckSender: (sender: string, contract: string) => void;
+}) {
+    const [flow, setFlow] = useState<Flow>("user");
+    const [user, setUser] = useState("");
+    const [contract, setContract] = useState("");
+    const [signer, setSigner] = useState("");
+    const [validity, setValidity] = useState<RequestWindow>({ startDaysAgo: 0, durationDays: 1 });
+    const [pending, setPending] = useState(false);
+    const [result, setResult] = useState<UserDecryption | null>(null);
+    const [holder, setHolder] = useState("");
+    const [opened, setOpened] = useState<CheckResult | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    // Fall back to sensible picks when nothing (or a deleted actor) is chosen
+    const userAddress = findActor(actors, user)?.address ?? actors.find((a) => a.kind === "eoa")?.address ?? "";
+    const contractAddress =
+        findActor(actors, contract)?.address ??
+        (cipher && aclContract(cipher, actors)) ??
+        actors.find((a) => a.kind === "contract")?.address ??
+        "";
+    const signerAddress = findActor(actors, signer)?.address ?? userAddress;
+    const holderAddress = findActor(actors, holder)?.address ?? result?.user ?? "";
+    const { rule } = FLOWS.find((f) => f.flow === flow)!;
+
+    const run = async () => {
+        if (flow === "user") {
+            setPending(true);
+            setOpened(null);
+            setError(null);
+            try {
+                setResult(await onUserDecrypt(userAddress, contractAddress, signerAddress, validity));
+                setHolder("");
+            } catch (e) {
+                setResult(null);
+                setError(e instanceof Error ? e.message : String(e));
+            } finally {
+                setPending(false);
+            }
+        }
+        if (flow === "public") onPublicDecrypt(userAddress);
+        if (flow === "sender") onCheckSender(userAddress, contractAddress);
+    };
+
+    return (
+        <motion.div
+            data-tour="decryption-panel"
+            className="p-4 bg-slate-800 rounded border border-yellow-500/30 text-left"
+            initial={{ y: 10, opacity: 0 }}
+            animate={{ y: 0, opacity: 1 }}
+            transition={{ delay: 0.5 }}
+        >
+            <h3 className="font-semibold mb-3 text-yellow-300">6. Test Decryption Authorization</h3>
+            <div className="flex gap-1 mb-3" role="tablist">
+                {FLOWS.map((f) => (
+                    <button
+                        key={f.flow}
+                        role="tab"
+                        aria-selected={flow === f.flow}
+                        onClick={() => setFlow(f.flow)}
+                        className={`flex-1 px-2 py-1 rounded text-xs font-semibold ${
+                            flow === f.flow ? "bg-yellow-500 text-slate-900" : "bg-slate-700 text-slate-300 hover:bg-slate-600"
+                        }`}
+                    >
+                        {f.label}
+                    </button>
+                ))}
+            </div>
+            <div className="grid grid-cols-2 gap-3 mb-3">
+                <label className="text-sm text-yellow-200">
+                    {flow === "user" ? "User:" : flow === "public" ? "Requester:" : "msg.sender:"}
+                    <ActorSelect actors={actors} value={userAddress} onChange={setUser} />
+                </label>
+                {flow !== "public" && (
+                    <label className="text-sm text-yellow-200">
+                        Contract:
+                        <ActorSelect actors={actors} value={contractAddress} onChange={setContract} kinds={["contract"]} />
+                    </label>
+                )}
+                {flow === "user" && (
+                    <label className="text-sm text-yellow-200">
+                        EIP-712 request signed by:
+                        <ActorSelect actors={actors} value={signerAddress} onChange={setSigner} />
+                    </label>
+                )}
+                {flow === "user" && (
+                    <div className="grid grid-cols-2 gap-2">
+                        <label className="text-sm text-yellow-200">
+                            Valid from (days ago):
+                            <input
+                                type="number"
+                                min={0}
+                                value={validity.startDaysAgo}
+                                onChange={(e) => setValidity({ ...validity, startDaysAgo: Number(e.target.value) })}
+                                className="w-full mt-1 px-3 py-2 bg-slate-700 border border-yellow-500/30 rounded text-white text-sm focus:outline-none focus:border-yellow-400"
+                            />
+                        </label>
+                        <label className="text-sm text-yellow-200">
+                            For (days):
+                            <input
+                                type="number"
+                                min={1}
+                                value={validity.durationDays}
+                                onChange={(e) => setValidity({ ...validity, durationDays: Number(e.target.value) })}
+                                className="w-full mt-1 px-3 py-2 bg-slate-700 border border-yellow-500/30 rounded text-white text-sm focus:outline-none focus:border-yellow-400"
+                            />
+                        </label>
+                    </div>
+                )}
+            </div>
+            <motion.button
+                onClick={run}
+                disabled={disabled || pending || !cipher || !userAddress || (flow !== "public" && !contractAddress)}
+                className="w-full px-4 py-2 bg-gradient-to-r from-yellow-500 to-yellow-600 hover:from-yellow-400 hover:to-yellow-500 disabled:from-slate-600 disabled:to-slate-600 rounded font-semibold transition text-slate-900"
+                whileHover={{ scale: 1.02 }}
+                whileTap={{ scale: 0.98 }}
+            >
+                {flow === "sender" ? "Call Guarded Function" : "Request Decryption"}
+            </motion.button>
+            <p className="text-xs text-yellow-200/60 mt-2">{rule}</p>
+            {flow === "user" && error && (
+                <p role="alert" className="mt-3 text-xs text-red-400">
+                    ✗ User decryption failed: {error}
+                </p>
+            )}
+            {flow === "user" && result && (
+                <div className="mt-3 p-3 bg-slate-900 rounded text-xs space-y-2">
+                    <details>
+                        <summary className="cursor-pointer text-yellow-300">Signed EIP-712 request</summary>
+                        <pre className="mt-1 text-slate-300 overflow-x-auto">{JSON.stringify(result.request, null, 2)}</pre>
+                    </details>
+                    <p className="font-mono text-slate-400 break-all">signature: {result.signature.slice(0, 42)}…</p>
+                    <p className={result.verification.allowed ? "text-green-400" : "text-red-400"}>
+                        {result.verification.allowed ? "✓" : "✗"} Gateway: {result.verification.reason}
+                    </p>
+                    {result.verification.allowed && !result.reencrypted && cipher?.plaintextUnknown && (
+                        <p className="text-orange-300">
+                            Plaintext unknown: {cipher.id} was imported from an ACL log, so there is nothing to re-encrypt
+                        </p>
+                    )}
+                    {result.reencrypted && (
+                        <>
+                            <p className="font-mono text-slate-400 break-all">
+                                re-encrypted result: {result.reencrypted.slice(0, 42)}…
+                            </p>
+                            <div className="flex gap-2 items-end">
+                                <label className="flex-1 text-yellow-200">
+                                    Private key of:
+                                    <ActorSelect actors={actors} value={holderAddress} onChange={setHolder} />
+                                </label>
+                                <button
+                                    onClick={async () => setOpened(await onOpen(result, holderAddress))}
+                                    className="px-3 py-2 bg-slate-700 hover:bg-slate-600 rounded text-yellow-200"
+                                >
+                                    Open Result
+                                </button>
+                            </div>
+                            {opened && (
+                                <p className={opened.allowed ? "text-green-400" : "text-red-400"}>
+                                    {opened.allowed ? "✓" : "✗"} {describeAddress(actors, holderAddress)}: {opened.reason}
+                                </p>
+                            )}
+                        </>
+                    )}
+                </div>
+            )}
+        </motion.div>
+    );
+}
@@ -0,0 +1,42 @@
+import { useState } from "react";
+import type { ACLEvent } from "../acl";
+import { eventStatus } from "../acl";
+
+const announcement = (event: ACLEvent): string => {
+    const status = eventStatus(event);
+    return `Event ${event.seq}, ${event.type.replace(/_/g, " ")}${status ? `, ${status}` : ""}: ${event.details.replace(/^[✓✗⚠⌛]\s*/, "")}`;
+};
+
+// Screen-reader announcement of every new event, oldest first, including all
+// events one action logs at once. Denials interrupt (role "alert"); everything
+// else waits for a pause (role "status").
+export function EventAnnouncer({ events }: { events: ACLEvent[] }) {
+    const latest = events[0]?.seq ?? 0;
+    // Events after `since` up to `until` are the batch being announced; the log
+    // restored on load is not news
+    const [batch, setBatch] = useState({ since: latest, until: latest });
+    if (latest !== batch.until) {
+        // A log that replaced the previous one, e.g. a loaded session, is not news either
+        const appended = latest > batch.until && (batch.until === 0 || events.some((e) => e.seq === batch.until));
+        setBatch({ since: appended ? batch.until : latest, until: latest });
+    }
+
+    const news = events.filter((e) => e.seq > batch.since && e.seq <= batch.until).reverse();
+    const denied = news.filter((e) => eventStatus(e) === "denied");
+    const other = news.filter((e) => eventStatus(e) !== "denied");
+
+    return (
+        <>
+            <div role="status" aria-live="polite" className="sr-only">
+                {other.map((e) => (
+                    <p key={e.seq}>{announcement(e)}</p>
+                ))}
+            </div>
+            <div role="alert" aria-live="assertive" className="sr-only">
+                {denied.map((e) => (
+                    <p key={e.seq}>{announcement(e)}</p>
+                ))}
+            </div>
+        </>
+    );
+}
@@ -0,0 +1,204 @@
+import { useEffect, useRef, useState } from "react";
+import { motion } from "framer-motion";
+import type { ACLEvent, ACLEventType, EventFilter } from "../acl";
+import { ACL_EVENT_TYPES, eventStatus, eventsToCSV, eventsToJSON, filterEvents } from "../acl";
+
+// Rows have a fixed height so only the visible slice of the log is rendered
+const ROW_HEIGHT = 92;
+const OVERSCAN = 4;
+
+const STATUS_LABELS = { denied: "✗ denied", success: "✓ ok" };
+
+const EVENT_STYLES: Record<ACLEventType, string> = {
+    allow: "bg-yellow-900/20 border-l-yellow-400 text-yellow-100",
+    allowTransient: "bg-blue-900/30 border-l-blue-400 text-blue-100",
+    revoke: "bg-orange-900/30 border-l-orange-400 text-orange-100",
+    makePublic: "bg-purple-900/30 border-l-purple-400 text-purple-100",
+    compute: "bg-teal-900/30 border-l-teal-400 text-teal-100",
+    compute_denied: "bg-red-900/30 border-l-red-400 text-red-100",
+    user_decrypt_request: "bg-yellow-900/20 border-l-yellow-400 text-yellow-100",
+    user_decrypt_success: "bg-green-900/30 border-l-green-400 text-green-100",
+    user_decrypt_denied: "bg-red-900/30 border-l-red-400 text-red-100",
+    public_decrypt_request: "bg-purple-900/20 border-l-purple-400 text-purple-100",
+    public_decrypt_success: "bg-green-900/30 border-l-green-400 text-green-100",
+    public_decrypt_denied: "bg-red-900/30 border-l-red-400 text-red-100",
+    sender_allowed: "bg-cyan-900/30 border-l-cyan-400 text-cyan-100",
+    sender_denied: "bg-red-900/30 border-l-red-400 text-red-100",
+    kms_share: "bg-emerald-900/20 border-l-emerald-400 text-emerald-100",
+    call: "bg-indigo-900/30 border-l-indigo-400 text-indigo-100",
+    call_return: "bg-indigo-900/20 border-l-indigo-300 text-indigo-200",
+    tx_begin: "bg-slate-800 border-l-slate-400 text-slate-200",
+    tx_end: "bg-slate-800 border-l-slate-400 text-slate-200",
+};
+
+const formatTime = (timestamp: string) => {
+    const date = new Date(timestamp);
+    return Number.isNaN(date.getTime()) ? timestamp : date.toLocaleTimeString();
+};
+
+const download = (filename: string, text: string, type: string) => {
+    const url = URL.createObjectURL(new Blob([text], { type }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
+};
+
+export function EventLog({
+    events,
+    ciphertexts,
+    selectedSeq,
+    onSelect,
+}: {
+    events: ACLEvent[];
+    ciphertexts: string[];
+    selectedSeq?: number | null;
+    // Clicking an event shows the state right after it
+    onSelect?: (seq: number) => void;
+}) {
+    const [filter, setFilter] = useState<EventFilter>({});
+    const [scrollTop, setScrollTop] = useState(0);
+    const [viewportHeight, setViewportHeight] = useState(400);
+    const viewport = useRef<HTMLDivElement>(null);
+
+    useEffect(() => {
+        const el = viewport.current;
+        if (!el) return;
+        const observer = new ResizeObserver(() => setViewportHeight(el.clientHeight));
+        observer.observe(el);
+        return () => observer.disconnect();
+    }, []);
+
+    // Every actor that appears in the log, in order of first appearance
+    const loggedActors = [...new Set([...events].reverse().map((e) => e.actor))];
+    const visible = filterEvents(events, filter);
+    const first = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN);
+    const last = Math.min(visible.length, Math.ceil((scrollTop + viewportHeight) / ROW_HEIGHT) + OVERSCAN);
+    const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+
+    const selectClass = "min-w-0 flex-1 px-2 py-1 bg-slate-700 border border-slate-600 rounded text-white text-xs";
+
+    return (
+        <div
+            className="bg-slate-900 border-2 border-yellow-500/50 p-6 rounded-lg h-[600px] flex flex-col hover:border-yellow-400/80 transition"
+            style={{
+                boxShadow: "0 0 15px rgba(250, 204, 21, 0.1)",
+            }}
+        >
+            <div className="flex items-center justify-between mb-3">
+                <h2 className="text-xl font-bold text-yellow-400">ACL Events Log</h2>
+                <span className="text-xs text-slate-400">
+                    {visible.length === events.length ? events.length : `${visible.length}/${events.length}`} events
+                </span>
+            </div>
+
+            <div className="flex gap-1 mb-2">
+                <select
+                    value={filter.type ?? ""}
+                    onChange={(e) => setFilter({ ...filter, type: (e.target.value || undefined) as ACLEventType | undefined })}
+                    aria-label="Filter by event type"
+                    className={selectClass}
+                >
+                    <option value="">All types</option>
+                    {ACL_EVENT_TYPES.map((t) => (
+                        <option key={t}>{t}</option>
+                    ))}
+                </select>
+                <select
+                    value={filter.actor ?? ""}
+                    onChange={(e) => setFilter({ ...filter, actor: e.target.value || undefined })}
+                    aria-label="Filter by actor"
+                    className={selectClass}
+                >
+                    <option value="">All actors</option>
+                    {loggedActors.map((actor) => (
+                        <option key={actor}>{actor}</option>
+                    ))}
+                </select>
+                <select
+                    value={filter.ciphertext ?? ""}
+                    onChange={(e) => setFilter({ ...filter, ciphertext: e.target.value || undefined })}
+                    aria-label="Filter by ciphertext"
+                    className={selectClass}
+                >
+                    <option value="">All ciphertexts</option>
+                    {ciphertexts.map((id) => (
+                        <option key={id}>{id}</option>
+                    ))}
+                </select>
+            </div>
+            <div className="flex gap-2 mb-3">
+                <motion.button
+                    onClick={() => download(`acl-events-${stamp}.json`, eventsToJSON(visible), "application/json")}
+                    disabled={visible.length === 0}
+                    className="flex-1 px-2 py-1 bg-slate-800 hover:bg-slate-700 disabled:opacity-40 border border-yellow-500/30 rounded text-xs text-yellow-300"
+                    whileHover={{ scale: 1.03 }}
+                    whileTap={{ scale: 0.97 }}
+                >
+                    Export JSON
+                </motion.button>
+                <motion.button
+                    onClick={() => download(`acl-events-${stamp}.csv`, eventsToCSV(visible), "text/csv")}
+                    disabled={visible.length === 0}
+                    className="flex-1 px-2 py-1 bg-slate-800 hover:bg-slate-700 disabled:opacity-40 border border-yellow-500/30 rounded text-xs text-yellow-300"
+                    whileHover={{ scale: 1.03 }}
+                    whileTap={{ scale: 0.97 }}
+                >
+                    Export CSV
+                </motion.button>
+            </div>
+
+            <div
+                ref={viewport}
+                onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+                className="flex-1 overflow-auto scrollbar-thin scrollbar-thumb-yellow-500/30 scrollbar-track-slate-800"
+            >
+                {events.length === 0 ? (
+                    <motion.div
+                        className="text-slate-500 text-sm"
+                        animate={{ opacity: [0.5, 1, 0.5] }}
+                        transition={{ duration: 2, repeat: Infinity }}
+                    >
+                        Waiting for events...
+                    </motion.div>
+                ) : (
+                    <div className="relative" style={{ height: visible.length * ROW_HEIGHT }}>
+                        {visible.slice(first, last).map((event, i) => (
+                            <div
+                                key={event.seq}
+                                className="absolute inset-x-0 pb-2"
+                                style={{ top: (first + i) * ROW_HEIGHT, height: ROW_HEIGHT }}
+                            >
+                                <button
+                                    onClick={() => onSelect?.(event.seq)}
+                                    aria-pressed={event.seq === selectedSeq}
+                                    className={`block w-full h-full overflow-hidden text-xs text-left p-2 rounded border-l-4 ${EVENT_STYLES[event.type]} ${
+                                        event.seq === selectedSeq ? "ring-2 ring-orange-400" : ""
+                                    }`}
+                                    title={`${event.timestamp}\n${event.details}`}
+                                >
+                                    <div className="flex justify-between font-semibold">
+                                        <span>
+                                            #{event.seq} [{formatTime(event.timestamp)}]
+                                            {eventStatus(event) && (
+                                                <span className="ml-1 px-1 rounded bg-black/30 uppercase">
+                                                    {STATUS_LABELS[eventStatus(event)!]}
+                                                </span>
+                                            )}
+                                        </span>
+                                        <span className="font-mono opacity-70">
+                                            {[event.tx, event.ciphertext].filter(Boolean).join(" · ")}
+                                        </span>
+                                    </div>
+                                    <div className="opacity-80 truncate">{event.actor}</div>
+                                    <div className="mt-1 line-clamp-2">{event.details}</div>
+                                </button>
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+}
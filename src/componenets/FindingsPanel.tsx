@@ -0,0 +1,70 @@
+import { lintPolicy } from "../acl";
+import type { ACLState, PolicyRule, Severity } from "../acl";
+import { builtInRules } from "../rules";
+
+const SEVERITY_STYLES: Record<Severity, string> = {
+    high: "bg-red-900/40 text-red-200 border-red-500/40",
+    medium: "bg-orange-900/40 text-orange-200 border-orange-500/40",
+    low: "bg-slate-700 text-slate-300 border-slate-500/40",
+};
+
+// Risky permission patterns in the live state, each linked to the ciphertext
+// it concerns and the event that introduced it
+export function FindingsPanel({
+    state,
+    rules = builtInRules,
+    onSelectCiphertext,
+    onSelectEvent,
+}: {
+    state: ACLState;
+    rules?: PolicyRule[];
+    onSelectCiphertext: (id: string) => void;
+    onSelectEvent: (seq: number) => void;
+}) {
+    const findings = lintPolicy(state, rules);
+
+    return (
+        <div className="bg-slate-900 border-2 border-yellow-500/50 p-6 rounded-lg my-6 text-left">
+            <div className="flex items-center justify-between mb-4">
+                <h2 className="text-xl font-bold text-yellow-400">Findings</h2>
+                <span className="text-xs text-slate-400">
+                    {findings.length} finding{findings.length === 1 ? "" : "s"}, {rules.length} rules
+                </span>
+            </div>
+            {findings.length === 0 ? (
+                <p className="text-sm text-slate-500">No risky permission patterns in the current state.</p>
+            ) : (
+                <ul className="space-y-2">
+                    {findings.map((finding, i) => (
+                        <li key={i} className={`p-3 rounded border text-sm ${SEVERITY_STYLES[finding.rule.severity]}`}>
+                            <div className="flex flex-wrap items-center gap-2">
+                                <span className="px-1.5 py-0.5 rounded bg-black/30 text-xs font-semibold uppercase">
+                                    {finding.rule.severity}
+                                </span>
+                                <span className="font-semibold">{finding.rule.title}</span>
+                                <button
+                                    onClick={() => onSelectCiphertext(finding.ciphertext)}
+                                    title="Select this ciphertext"
+                                    className="ml-auto px-2 py-0.5 bg-slate-800 hover:bg-slate-700 rounded text-xs font-mono text-yellow-300"
+                                >
+                                    {finding.ciphertext}
+                                </button>
+                                {finding.event !== null && (
+                                    <button
+                                        onClick={() => onSelectEvent(finding.event!)}
+                                        title="Show the state right after this event"
+                                        className="px-2 py-0.5 bg-slate-800 hover:bg-slate-700 rounded text-xs text-yellow-300"
+                                    >
+                                        event #{finding.event}
+                                    </button>
+                                )}
+                            </div>
+                            <p className="mt-1">{finding.message}.</p>
+                            <p className="mt-1 text-xs opacity-70">{finding.rule.advice}</p>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,178 @@
+import { useState } from "react";
+import { motion } from "framer-motion";
+import type { Actor, Ciphertext, PermissionModel } from "../acl";
+import { describeAddress, findActor } from "../acl";
+import { ActorSelect } from "./ActorSelect";
+
+// "3. Grant ACL Permissions": any FHE.allow* call on the selected ciphertext,
+// plus revocation of permanent grants under the chosen permission model. A
+// permanent grant can be limited to a number of blocks on the simulated clock.
+export function GrantPanel({
+    cipher,
+    actors,
+    permissionModel,
+    block,
+    onAllow,
+    onAllowThis,
+    onAllowTransient,
+    onRevoke,
+    onMakePublic,
+    onPermissionModelChange,
+}: {
+    cipher: Ciphertext;
+    actors: Actor[];
+    permissionModel: PermissionModel;
+    block: number;
+    onAllow: (address: string, expiresAt: number | null, reason: string) => void;
+    onAllowThis: (contract: string) => void;
+    onAllowTransient: (address: string) => void;
+    onRevoke: (address: string) => void;
+    onMakePublic: () => void;
+    onPermissionModelChange: (model: PermissionModel) => void;
+}) {
+    const [grantee, setGrantee] = useState("");
+    // Blank for a grant that never expires, otherwise a whole number of blocks
+    const [lifetime, setLifetime] = useState("");
+    const [reason, setReason] = useState("");
+    const blocks = /^\d+$/.test(lifetime.trim()) ? Number(lifetime.trim()) : 0;
+    const lifetimeValid = lifetime.trim() === "" || blocks > 0;
+    const expiresAt = lifetime.trim() && lifetimeValid ? block + blocks : null;
+
+    // The Gateway is the usual grantee, so it is the default choice
+    const selected =
+        findActor(actors, grantee) ?? actors.find((a) => a.kind === "gateway") ?? actors[0];
+    const isContract = selected?.kind === "contract";
+
+    return (
+        <motion.div
+            data-tour="grant-panel"
+            className="mb-6 p-4 bg-slate-800 rounded border border-yellow-500/30 text-left"
+            initial={{ y: 10, opacity: 0 }}
+            animate={{ y: 0, opacity: 1 }}
+            transition={{ delay: 0.4 }}
+        >
+            <h3 className="font-semibold mb-3 text-yellow-300">3. Grant ACL Permissions</h3>
+            <label className="block text-sm text-yellow-200 mb-2">
+                Grantee:
+                <ActorSelect actors={actors} value={selected?.address ?? ""} onChange={setGrantee} />
+            </label>
+            <div className="grid grid-cols-2 gap-2 mb-2">
+                <label className="text-sm text-yellow-200">
+                    FHE.allow expires after (blocks):
+                    <input
+                        inputMode="numeric"
+                        value={lifetime}
+                        onChange={(e) => setLifetime(e.target.value)}
+                        placeholder="never"
+                        aria-invalid={!lifetimeValid}
+                        className={`block w-full mt-1 px-3 py-2 bg-slate-700 border rounded text-white text-sm ${
+                            lifetimeValid ? "border-yellow-500/30" : "border-red-400"
+                        }`}
+                    />
+                    {!lifetimeValid && (
+                        <span className="block mt-1 text-xs text-red-400">
+                            Enter a whole number of blocks above 0, or leave blank for never
+                        </span>
+                    )}
+                </label>
+                <label className="text-sm text-yellow-200">
+                    Reason:
+                    <input
+                        value={reason}
+                        onChange={(e) => setReason(e.target.value)}
+                        placeholder="e.g. quarterly audit"
+                        className="block w-full mt-1 px-3 py-2 bg-slate-700 border border-yellow-500/30 rounded text-white text-sm"
+                    />
+                </label>
+            </div>
+            <div className="grid grid-cols-3 gap-2 mb-2">
+                <motion.button
+                    onClick={() => selected && onAllow(selected.address, expiresAt, reason)}
+                    title={expiresAt === null ? undefined : `Until block ${expiresAt}`}
+                    disabled={!selected || !lifetimeValid}
+                    className="px-3 py-2 bg-gradient-to-r from-yellow-500 to-amber-600 hover:from-yellow-400 hover:to-amber-500 disabled:from-slate-600 disabled:to-slate-600 rounded font-semibold text-sm text-slate-900 transition"
+                    whileHover={{ scale: 1.02 }}
+                    whileTap={{ scale: 0.98 }}
+                >
+                    FHE.allow()
+                </motion.button>
+                <motion.button
+                    onClick={() => selected && onAllowThis(selected.address)}
+                    disabled={!isContract}
+                    title={isContract ? undefined : "allowThis is called by a contract for itself"}
+                    className="px-3 py-2 bg-gradient-to-r from-green-500 to-emerald-600 hover:from-green-400 hover:to-emerald-500 disabled:from-slate-600 disabled:to-slate-600 rounded font-semibold text-sm transition"
+                    whileHover={{ scale: 1.02 }}
+                    whileTap={{ scale: 0.98 }}
+                >
+                    FHE.allowThis()
+                </motion.button>
+                <motion.button
+                    onClick={() => selected && onAllowTransient(selected.address)}
+                    disabled={!selected}
+                    className="px-3 py-2 bg-gradient-to-r from-blue-500 to-cyan-500 hover:from-blue-400 hover:to-cyan-400 disabled:from-slate-600 disabled:to-slate-600 rounded font-semibold text-sm transition"
+                    whileHover={{ scale: 1.02 }}
+                    whileTap={{ scale: 0.98 }}
+                >
+                    FHE.allowTransient()
+                </motion.button>
+            </div>
+            <motion.button
+                onClick={onMakePublic}
+                className="w-full px-4 py-2 bg-gradient-to-r from-purple-500 to-pink-500 hover:from-purple-400 hover:to-pink-400 rounded font-semibold text-sm transition"
+                whileHover={{ scale: 1.02 }}
+                whileTap={{ scale: 0.98 }}
+            >
+                FHE.makePubliclyDecryptable() — Public Access
+            </motion.button>
+
+            <div className="mt-4 pt-3 border-t border-yellow-500/20">
+                <div className="flex items-center justify-between mb-2 text-sm">
+                    <span className="text-yellow-200">Permanent grants</span>
+                    <label className="flex items-center gap-2 text-xs text-slate-300">
+                        Permission model:
+                        <select
+                            value={permissionModel}
+                            onChange={(e) => onPermissionModelChange(e.target.value as PermissionModel)}
+                            className="px-2 py-1 bg-slate-700 border border-slate-600 rounded text-white"
+                        >
+                            <option value="immutable">Immutable (FHEVM)</option>
+                            <option value="revocable">Revocable</option>
+                        </select>
+                    </label>
+                </div>
+                {cipher.permanentACL.length === 0 ? (
+                    <p className="text-xs text-slate-500">None</p>
+                ) : (
+                    <ul className="space-y-1">
+                        {cipher.permanentACL.map((addr) => {
+                            const grant = cipher.grants.find((g) => g.address === addr);
+                            return (
+                                <li key={addr} className="flex items-center justify-between text-xs font-mono text-cyan-300">
+                                    <span title={grant?.reason || undefined}>
+                                        {describeAddress(actors, addr)}
+                                        {grant?.expiresAt != null && (
+                                            <span className="ml-2 font-sans text-orange-200">
+                                                ⏳ {grant.expiresAt - block} block{grant.expiresAt - block === 1 ? "" : "s"} left
+                                            </span>
+                                        )}
+                                    </span>
+                                    <button
+                                        onClick={() => onRevoke(addr)}
+                                        className="px-2 py-0.5 bg-red-900/40 hover:bg-red-800/60 border border-red-400/40 rounded text-red-200 font-sans"
+                                    >
+                                        Revoke
+                                    </button>
+                                </li>
+                            );
+                        })}
+                    </ul>
+                )}
+            </div>
+            <p className="text-xs text-yellow-200/60 mt-2">
+                Permanent = FHE.allow (survives the tx). Transient = EIP-1153 (gas efficient). Public = off-chain decryption.
+                {permissionModel === "immutable" &&
+                    " FHEVM has no revoke: once granted, always granted. Expiring grants exist only in the simulator."}
+            </p>
+        </motion.div>
+    );
+}
@@ -0,0 +1,99 @@
+import { motion } from "framer-motion";
+import type { GuardianStatus, KMSState } from "../acl";
+import { KMS_SIZES } from "../acl";
+
+const STATUS_STYLES: Record<GuardianStatus, { label: string; className: string }> = {
+    online: { label: "🟢 online", className: "bg-green-900/40 text-green-200 border-green-500/40" },
+    offline: { label: "⚫ offline", className: "bg-slate-700 text-slate-400 border-slate-500/40" },
+    malicious: { label: "😈 malicious", className: "bg-red-900/40 text-red-200 border-red-500/40" },
+};
+
+const NEXT_STATUS: Record<GuardianStatus, GuardianStatus> = { online: "offline", offline: "malicious", malicious: "online" };
+
+// "7. Threshold KMS": the guardians holding shares of the decryption key. Every
+// decryption needs `threshold` of them to answer with a share that passes its proof.
+// The selects show the dealt configuration, and changing one deals new shares.
+export function KMSPanel({
+    kms,
+    onConfigure,
+    onStatus,
+}: {
+    kms: KMSState;
+    onConfigure: (size: number, threshold: number) => void;
+    onStatus: (guardian: number, status: GuardianStatus) => void;
+}) {
+    const size = kms.guardians.length;
+    const { threshold } = kms;
+    const honest = kms.guardians.filter((g) => g.status === "online").length;
+
+    return (
+        <motion.div
+            className="mt-6 p-4 bg-slate-800 rounded border border-yellow-500/30 text-left"
+            initial={{ y: 10, opacity: 0 }}
+            animate={{ y: 0, opacity: 1 }}
+            transition={{ delay: 0.55 }}
+        >
+            <h3 className="font-semibold mb-3 text-yellow-300">7. Threshold KMS</h3>
+            <div className="flex flex-wrap items-end gap-3 mb-3">
+                <label className="text-sm text-yellow-200">
+                    Guardians:
+                    <select
+                        value={size}
+                        onChange={(e) => {
+                            const next = Number(e.target.value);
+                            onConfigure(next, Math.min(threshold, next));
+                        }}
+                        className="block mt-1 px-3 py-2 bg-slate-700 border border-yellow-500/30 rounded text-white text-sm"
+                    >
+                        {KMS_SIZES.map((n) => (
+                            <option key={n} value={n}>
+                                {n}
+                            </option>
+                        ))}
+                    </select>
+                </label>
+                <label className="text-sm text-yellow-200">
+                    Threshold:
+                    <select
+                        value={threshold}
+                        onChange={(e) => onConfigure(size, Number(e.target.value))}
+                        className="block mt-1 px-3 py-2 bg-slate-700 border border-yellow-500/30 rounded text-white text-sm"
+                    >
+                        {Array.from({ length: size }, (_, i) => i + 1).map((t) => (
+                            <option key={t} value={t}>
+                                {t} of {size}
+                            </option>
+                        ))}
+                    </select>
+                </label>
+                <motion.button
+                    onClick={() => onConfigure(size, threshold)}
+                    className="px-4 py-2 bg-yellow-500 hover:bg-yellow-400 rounded text-sm font-semibold text-slate-900"
+                    whileHover={{ scale: 1.05 }}
+                    whileTap={{ scale: 0.95 }}
+                >
+                    Deal new shares
+                </motion.button>
+            </div>
+
+            <div className="grid grid-cols-2 gap-2">
+                {kms.guardians.map((guardian, i) => (
+                    <button
+                        key={guardian.name}
+                        onClick={() => onStatus(i, NEXT_STATUS[guardian.status])}
+                        title={`Verification key ${guardian.verificationKey.slice(0, 16)}… (click to change status)`}
+                        className={`px-3 py-2 rounded border text-sm text-left ${STATUS_STYLES[guardian.status].className}`}
+                    >
+                        <span className="font-semibold">{guardian.name}</span>{" "}
+                        <span className="text-xs">{STATUS_STYLES[guardian.status].label}</span>
+                    </button>
+                ))}
+            </div>
+            <p className={`text-xs mt-2 ${honest >= kms.threshold ? "text-yellow-200/60" : "text-red-300"}`}>
+                {honest} honest guardian{honest === 1 ? "" : "s"} online, {kms.threshold} needed. Shares are Shamir
+                shares of the Paillier key; each partial decryption carries a proof, so a malicious share is rejected
+                instead of corrupting the result. Dealing new shares keeps the same public key.
+            </p>
+        </motion.div>
+    );
+}
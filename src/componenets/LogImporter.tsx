@@ -0,0 +1,84 @@
+import { useState } from "react";
+import { motion } from "framer-motion";
+import { importACLLog } from "../acl";
+import type { ACLState, Actor, ImportError } from "../acl";
+
+// Replays Allowed / AllowedForDecryption events exported from a real FHEVM
+// deployment (e.g. `contract.queryFilter(...)` saved as JSON)
+export function LogImporter({ actors, onState }: { actors: Actor[]; onState: (state: ACLState) => void }) {
+    const [text, setText] = useState("");
+    const [source, setSource] = useState<string | null>(null);
+    const [report, setReport] = useState<{ imported: number; ciphertexts: number; errors: ImportError[] } | null>(null);
+
+    const replay = (log: string) => {
+        const result = importACLLog(log, actors, new Date().toISOString());
+        setReport({ imported: result.imported, ciphertexts: result.state.ciphertexts.length, errors: result.errors });
+        if (result.imported > 0) onState(result.state);
+    };
+
+    return (
+        <div className="bg-slate-900 border-2 border-yellow-500/50 p-6 rounded-lg mb-6 text-left">
+            <h2 className="text-xl font-bold mb-4 text-yellow-400">Import ACL Log</h2>
+            <p className="text-xs text-yellow-200/60 mb-3">
+                A JSON array or JSON Lines file of ACL contract events with <code>event</code> and <code>args</code>;
+                entries sharing a <code>transactionHash</code> are replayed as one transaction.
+            </p>
+            <div className="flex gap-2 mb-2">
+                <label className="px-3 py-2 bg-slate-700 hover:bg-slate-600 border border-yellow-500/30 rounded text-sm cursor-pointer">
+                    📂 Choose file
+                    <input
+                        type="file"
+                        accept=".json,.jsonl,application/json"
+                        className="hidden"
+                        onChange={(e) => {
+                            const file = e.target.files?.[0];
+                            e.target.value = "";
+                            if (!file) return;
+                            setSource(file.name);
+                            file.text().then(replay);
+                        }}
+                    />
+                </label>
+                <motion.button
+                    onClick={() => {
+                        setSource("pasted log");
+                        replay(text);
+                    }}
+                    disabled={text.trim() === ""}
+                    className="px-4 py-2 bg-gradient-to-r from-green-500 to-emerald-600 hover:from-green-400 hover:to-emerald-500 rounded font-semibold text-sm transition disabled:opacity-50"
+                    whileHover={{ scale: 1.05 }}
+                    whileTap={{ scale: 0.95 }}
+                >
+                    Replay pasted log
+                </motion.button>
+            </div>
+            <textarea
+                value={text}
+                onChange={(e) => setText(e.target.value)}
+                placeholder='[{ "event": "Allowed", "args": { "caller": "0x…", "account": "0x…", "handle": "0x…" } }]'
+                aria-label="ACL log"
+                rows={3}
+                className="w-full px-3 py-2 bg-slate-800 border border-yellow-500/30 rounded text-white text-xs font-mono"
+            />
+
+            {report && (
+                <div className="mt-3 text-sm">
+                    <p className={report.imported > 0 ? "text-green-300" : "text-red-300"}>
+                        {report.imported > 0
+                            ? `✓ Replayed ${report.imported} event(s) from ${source}: ${report.ciphertexts} handle(s) with unknown plaintexts.`
+                            : `✗ Nothing to replay from ${source}; the current state was kept.`}
+                    </p>
+                    {report.errors.length > 0 && (
+                        <ul className="mt-2 max-h-40 overflow-y-auto text-xs font-mono text-red-300 space-y-1">
+                            {report.errors.map((error, i) => (
+                                <li key={i}>
+                                    Line {error.line}: {error.message}
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -1,12 +1,16 @@
 import Lottie from "lottie-react";
 import { useAsset } from "../hooks/useAssets";
+import { useMotion } from "../hooks/useMotion";
 import { AssetFallback } from "./AssetFallback";
 
 export function LottieAuto({ src }: { src: string }) {
-    const { status, data } = useAsset(src, "json");
+    const asset = useAsset(src, "json");
+    // Reduced motion shows the first frame instead of looping
+    const { reduced } = useMotion();
 
-    if (status === "missing") return <AssetFallback label={src} />;
-    if (status === "loading") return <div>Loading animation…</div>;
+    if (asset.status === "missing") return <AssetFallback label={src} />;
+    if (asset.status === "error") return <AssetFallback label={src} error={asset.error} />;
+    if (asset.status === "loading") return <div>Loading animation…</div>;
 
-    return <Lottie animationData={data} loop={true} />;
+    return <Lottie animationData={asset.data} loop={!reduced} autoplay={!reduced} />;
 }
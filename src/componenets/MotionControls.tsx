@@ -0,0 +1,28 @@
+import { useMotion } from "../hooks/useMotion";
+import type { MotionPreference } from "../hooks/useMotion";
+
+const OPTIONS: { value: MotionPreference; label: string }[] = [
+    { value: "system", label: "Motion: system" },
+    { value: "reduce", label: "Reduced motion" },
+    { value: "full", label: "Full motion" },
+];
+
+// Header control overriding the OS reduced-motion setting
+export function MotionControls() {
+    const motion = useMotion();
+
+    return (
+        <select
+            value={motion.preference}
+            onChange={(e) => motion.setPreference(e.target.value as MotionPreference)}
+            aria-label="Animation"
+            className="px-2 py-1 bg-slate-800 border border-slate-600 rounded text-sm text-slate-300"
+        >
+            {OPTIONS.map((o) => (
+                <option key={o.value} value={o.value}>
+                    {o.label}
+                </option>
+            ))}
+        </select>
+    );
+}
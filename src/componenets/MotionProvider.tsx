@@ -0,0 +1,42 @@
+import { useEffect, useState, useSyncExternalStore } from "react";
+import type { ReactNode } from "react";
+import { MotionConfig } from "framer-motion";
+import { MotionContext, prefersReducedMotion, subscribeReducedMotion } from "../hooks/useMotion";
+import type { MotionPreference } from "../hooks/useMotion";
+
+const STORAGE_KEY = "zama-acl-motion";
+
+function loadPreference(): MotionPreference {
+    try {
+        const stored = localStorage.getItem(STORAGE_KEY);
+        return stored === "reduce" || stored === "full" ? stored : "system";
+    } catch {
+        return "system";
+    }
+}
+
+// Reduced-motion mode for the whole demo: MotionConfig reaches every motion.*
+// component, and the data attribute on <html> stops CSS animations
+export function MotionProvider({ children }: { children: ReactNode }) {
+    const [preference, setPreference] = useState(loadPreference);
+    const systemReduced = useSyncExternalStore(subscribeReducedMotion, prefersReducedMotion);
+    const reduced = preference === "system" ? systemReduced : preference === "reduce";
+
+    useEffect(() => {
+        try {
+            localStorage.setItem(STORAGE_KEY, preference);
+        } catch {
+            // Storage disabled: the preference lasts for this visit only
+        }
+    }, [preference]);
+
+    useEffect(() => {
+        document.documentElement.dataset.motion = reduced ? "reduced" : "full";
+    }, [reduced]);
+
+    return (
+        <MotionContext.Provider value={{ preference, reduced, setPreference }}>
+            <MotionConfig reducedMotion={reduced ? "always" : "never"}>{children}</MotionConfig>
+        </MotionContext.Provider>
+    );
+}
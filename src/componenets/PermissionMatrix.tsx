@@ -0,0 +1,153 @@
+import { useEffect, useState } from "react";
+import { motion } from "framer-motion";
+import type { ACLEvent, ACLEventType, AccessLevel, Actor, Ciphertext } from "../acl";
+import { accessLevel, planDecryption } from "../acl";
+
+const CELL_STYLES: Record<AccessLevel, { label: string; className: string }> = {
+    permanent: { label: "🔑 permanent", className: "bg-cyan-900/40 text-cyan-200" },
+    transient: { label: "⏳ transient", className: "bg-blue-900/40 text-blue-200" },
+    public: { label: "🌐 public", className: "bg-purple-900/40 text-purple-200" },
+    none: { label: "— none", className: "bg-slate-800 text-slate-500" },
+};
+
+const FLASH_MS = 900;
+
+// Events that settle a decryption request, and whether it succeeded
+const OUTCOMES: Partial<Record<ACLEventType, boolean>> = {
+    user_decrypt_success: true,
+    user_decrypt_denied: false,
+    public_decrypt_success: true,
+    public_decrypt_denied: false,
+};
+
+interface CellRequest {
+    cell: string;
+    ciphertext: string;
+    address: string;
+    // Head of the log when the request was sent; its outcome comes later
+    after: number;
+    error?: string;
+}
+
+// Actors × ciphertexts. Clicking a cell sends the decryption request that
+// actor would make for that ciphertext (see `planDecryption`), and flashes the
+// outcome the log records for it, guardian quorum included.
+export function PermissionMatrix({
+    actors,
+    ciphertexts,
+    events,
+    onUserDecrypt,
+    onPublicDecrypt,
+}: {
+    actors: Actor[];
+    ciphertexts: Ciphertext[];
+    events: ACLEvent[];
+    // Omitted while the matrix only shows a past state
+    onUserDecrypt?: (ciphertext: string, user: string, contract: string, signer: string) => Promise<unknown>;
+    onPublicDecrypt?: (ciphertext: string, requester: string) => void;
+}) {
+    const [request, setRequest] = useState<CellRequest | null>(null);
+    const outcome =
+        request &&
+        events.find(
+            (e) =>
+                e.seq > request.after &&
+                e.type in OUTCOMES &&
+                e.ciphertext === request.ciphertext &&
+                e.address === request.address
+        );
+    const flash =
+        request && (outcome || request.error !== undefined)
+            ? { cell: request.cell, allowed: outcome ? OUTCOMES[outcome.type]! : false, error: request.error }
+            : null;
+    const settled = flash !== null;
+
+    useEffect(() => {
+        if (!settled) return;
+        const timer = setTimeout(() => setRequest(null), FLASH_MS);
+        return () => clearTimeout(timer);
+    }, [settled, request]);
+
+    if (ciphertexts.length === 0) return null;
+
+    return (
+        <div
+            data-tour="permission-matrix"
+            className="bg-slate-900 border-2 border-yellow-500/50 p-6 rounded-lg my-6 text-left overflow-x-auto"
+        >
+            <h2 className="text-xl font-bold mb-4 text-yellow-400">Permission Matrix</h2>
+            <table className="text-xs border-separate border-spacing-1">
+                <thead>
+                    <tr>
+                        <th className="text-left text-slate-400 font-normal">Actor \ Ciphertext</th>
+                        {ciphertexts.map((c) => (
+                            <th key={c.id} className="px-2 font-mono text-yellow-300 font-normal">
+                                {c.id}
+                            </th>
+                        ))}
+                    </tr>
+                </thead>
+                <tbody>
+                    {actors.map((actor) => (
+                        <tr key={actor.address}>
+                            <th className="pr-2 text-left text-yellow-200 font-normal whitespace-nowrap">
+                                {actor.name} <span className="text-slate-500">({actor.kind})</span>
+                            </th>
+                            {ciphertexts.map((cipher) => {
+                                const level = accessLevel(cipher, actor.address);
+                                const cell = `${actor.address}:${cipher.id}`;
+                                const flashed = flash?.cell === cell ? flash : null;
+                                return (
+                                    <td key={cipher.id} className="p-0">
+                                        <motion.button
+                                            onClick={() => {
+                                                if (!onUserDecrypt || !onPublicDecrypt) return;
+                                                const plan = planDecryption(cipher, actor.address, actors);
+                                                const sent = {
+                                                    cell,
+                                                    ciphertext: cipher.id,
+                                                    address: actor.address,
+                                                    after: events[0]?.seq ?? 0,
+                                                };
+                                                setRequest(sent);
+                                                if (plan.flow === "user") {
+                                                    onUserDecrypt(cipher.id, actor.address, plan.contract, actor.address).catch(
+                                                        (e: unknown) => {
+                                                            const error = e instanceof Error ? e.message : String(e);
+                                                            setRequest((r) => (r === sent ? { ...sent, error } : r));
+                                                        }
+                                                    );
+                                                } else {
+                                                    onPublicDecrypt(cipher.id, actor.address);
+                                                }
+                                            }}
+                                            disabled={!onUserDecrypt || !onPublicDecrypt}
+                                            title={flashed?.error ?? `Request decryption of ${cipher.id} as ${actor.name}`}
+                                            className={`w-full px-2 py-1 rounded whitespace-nowrap ${CELL_STYLES[level].className} ${
+                                                flashed ? (flashed.allowed ? "ring-2 ring-green-400" : "ring-2 ring-red-400") : ""
+                                            }`}
+                                            animate={flashed ? { scale: [1, 1.15, 1] } : { scale: 1 }}
+                                            transition={{ duration: 0.4 }}
+                                        >
+                                            {flashed
+                                                ? flashed.error
+                                                    ? "⚠ error"
+                                                    : flashed.allowed
+                                                      ? "✓ decrypted"
+                                                      : "✗ denied"
+                                                : CELL_STYLES[level].label}
+                                        </motion.button>
+                                    </td>
+                                );
+                            })}
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+            <p className="text-xs text-yellow-200/60 mt-2">
+                Computed with FHE.isAllowed() per pair. Click a cell to request decryption as that actor: user
+                decryption through a contract on the ACL, or public decryption for public handles.
+            </p>
+        </div>
+    );
+}
@@ -1,20 +1,13 @@
-import { useAsset } from "../hooks/useAssets";
-import { AssetFallback } from "./AssetFallback";
+import type { SoundName } from "../assets/manifest";
+import { useAudio } from "../hooks/useAudio";
 
-export function SFX({ src }: { src: string }) {
-    const { status, data } = useAsset(src, "audio");
-
-    if (status === "missing") return <AssetFallback label={src} />;
-    if (status === "loading") return null;
-
-    const play = () => {
-        const audio = new Audio(data);
-        audio.play();
-    };
+// Plays one of the named sounds through the shared audio manager
+export function SFX({ sound, label = "Play SFX" }: { sound: SoundName; label?: string }) {
+    const { play, silent } = useAudio();
 
     return (
-        <button className="px-3 py-2 bg-blue-700 rounded" onClick={play}>
-            Play SFX
+        <button className="px-3 py-2 bg-blue-700 rounded disabled:opacity-50" onClick={() => play(sound)} disabled={silent}>
+            {label}
         </button>
     );
 }
@@ -0,0 +1,89 @@
+import { useState } from "react";
+import { motion } from "framer-motion";
+import type { ACLState } from "../acl";
+import { useScenarioRunner } from "../hooks/useScenarioRunner";
+import { builtInScenarios } from "../scenarios";
+
+export function ScenarioRunner({ onState }: { onState: (state: ACLState) => void }) {
+    const [selectedId, setSelectedId] = useState(builtInScenarios[0].id);
+    const runner = useScenarioRunner(onState);
+    const { scenario, position, results, playing, done } = runner;
+    const failures = results.filter((r) => !r.ok).length;
+
+    return (
+        <div className="bg-slate-900 border-2 border-yellow-500/50 p-6 rounded-lg mb-6 text-left">
+            <h2 className="text-xl font-bold mb-4 text-yellow-400">Scenario Runner</h2>
+            <div className="flex gap-2 mb-3">
+                <select
+                    value={selectedId}
+                    onChange={(e) => setSelectedId(e.target.value)}
+                    aria-label="Scenario"
+                    className="flex-1 px-3 py-2 bg-slate-700 border border-yellow-500/30 rounded text-white text-sm"
+                >
+                    {builtInScenarios.map((s) => (
+                        <option key={s.id} value={s.id}>
+                            {s.title}
+                        </option>
+                    ))}
+                </select>
+                <motion.button
+                    onClick={() => runner.load(builtInScenarios.find((s) => s.id === selectedId)!)}
+                    className="px-4 py-2 bg-gradient-to-r from-green-500 to-emerald-600 hover:from-green-400 hover:to-emerald-500 rounded font-semibold text-sm transition"
+                    whileHover={{ scale: 1.05 }}
+                    whileTap={{ scale: 0.95 }}
+                >
+                    Load
+                </motion.button>
+            </div>
+
+            {scenario && (
+                <>
+                    <p className="text-xs text-slate-300 mb-3">{scenario.description}</p>
+                    <div className="flex items-center gap-2 mb-3">
+                        <button
+                            onClick={runner.stepBack}
+                            disabled={position === 0}
+                            className="px-3 py-1 bg-slate-700 hover:bg-slate-600 disabled:opacity-40 rounded text-sm"
+                        >
+                            ⏮ Back
+                        </button>
+                        <button
+                            onClick={playing ? runner.pause : runner.play}
+                            disabled={done && !playing}
+                            className="px-3 py-1 bg-yellow-500 hover:bg-yellow-400 disabled:opacity-40 rounded text-sm font-semibold text-slate-900"
+                        >
+                            {playing ? "⏸ Pause" : "▶ Play"}
+                        </button>
+                        <button
+                            onClick={runner.stepForward}
+                            disabled={done}
+                            className="px-3 py-1 bg-slate-700 hover:bg-slate-600 disabled:opacity-40 rounded text-sm"
+                        >
+                            Step ⏭
+                        </button>
+                        <span className="ml-auto text-xs text-slate-400">
+                            Step {position}/{scenario.steps.length}
+                            {failures > 0 && <span className="text-red-300"> · {failures} unexpected</span>}
+                        </span>
+                    </div>
+                    <ol className="space-y-1 max-h-48 overflow-y-auto text-xs">
+                        {scenario.steps.map((step, i) => {
+                            const result = results[i];
+                            return (
+                                <li
+                                    key={i}
+                                    className={`px-2 py-1 rounded ${
+                                        i === position ? "bg-yellow-500/20 text-yellow-100" : "text-slate-300"
+                                    } ${result && !result.ok ? "text-red-300" : ""}`}
+                                >
+                                    <span className="inline-block w-5">{result ? (result.ok ? "✓" : "✗") : i + 1}</span>
+                                    {result ? result.message : step.note}
+                                </li>
+                            );
+                        })}
+                    </ol>
+                </>
+            )}
+        </div>
+    );
+}
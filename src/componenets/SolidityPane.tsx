@@ -0,0 +1,61 @@
+import { useState } from "react";
+import { PrismLight as SyntaxHighlighter } from "react-syntax-highlighter";
+import solidity from "react-syntax-highlighter/dist/esm/languages/prism/solidity";
+import { vscDarkPlus } from "react-syntax-highlighter/dist/esm/styles/prism";
+import { toSolidity } from "../acl";
+import type { ACLEvent, Actor } from "../acl";
+
+SyntaxHighlighter.registerLanguage("solidity", solidity);
+
+const FILE_NAME = "ACLDemo.sol";
+
+// Live Solidity equivalent of everything done in the demo so far
+export function SolidityPane({ events, actors }: { events: ACLEvent[]; actors: Actor[] }) {
+    const [copied, setCopied] = useState(false);
+    const code = toSolidity(events, actors);
+
+    const copy = async () => {
+        try {
+            await navigator.clipboard.writeText(code);
+            setCopied(true);
+            setTimeout(() => setCopied(false), 1500);
+        } catch {
+            // Clipboard blocked: the download button still works
+        }
+    };
+
+    const download = () => {
+        const url = URL.createObjectURL(new Blob([code], { type: "text/plain" }));
+        const link = document.createElement("a");
+        link.href = url;
+        link.download = FILE_NAME;
+        link.click();
+        URL.revokeObjectURL(url);
+    };
+
+    return (
+        <div className="bg-slate-900 border-2 border-yellow-500/50 p-6 rounded-lg my-6 text-left">
+            <div className="flex items-center gap-2 mb-4">
+                <h2 className="text-xl font-bold text-yellow-400">Solidity</h2>
+                <span className="text-xs text-slate-400 font-mono">{FILE_NAME}</span>
+                <button
+                    onClick={copy}
+                    className="ml-auto px-3 py-1 bg-slate-700 hover:bg-slate-600 rounded text-xs text-yellow-300"
+                >
+                    {copied ? "Copied ✓" : "Copy"}
+                </button>
+                <button onClick={download} className="px-3 py-1 bg-slate-700 hover:bg-slate-600 rounded text-xs text-yellow-300">
+                    Download
+                </button>
+            </div>
+            <SyntaxHighlighter
+                language="solidity"
+                style={vscDarkPlus}
+                showLineNumbers
+                customStyle={{ margin: 0, maxHeight: "28rem", fontSize: "0.75rem", borderRadius: "0.25rem" }}
+            >
+                {code}
+            </SyntaxHighlighter>
+        </div>
+    );
+}
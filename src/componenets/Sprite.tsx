@@ -1,11 +1,12 @@
 import { useAsset } from "../hooks/useAssets";
 import { AssetFallback } from "./AssetFallback";
 
-export function Sprite({ src }: { src: string }) {
-    const { status, data } = useAsset(src, "image");
+export function Sprite({ src, alt = "sprite", className = "" }: { src: string; alt?: string; className?: string }) {
+    const asset = useAsset(src, "image");
 
-    if (status === "missing") return <AssetFallback label={src} />;
-    if (status === "loading") return <div>Loading sprite…</div>;
+    if (asset.status === "missing") return <AssetFallback label={src} />;
+    if (asset.status === "error") return <AssetFallback label={src} error={asset.error} />;
+    if (asset.status === "loading") return <div>Loading sprite…</div>;
 
-    return <img src={data} alt="sprite" className="sprite-frame" />;
+    return <img src={asset.data} alt={alt} className={`sprite-frame ${className}`} />;
 }
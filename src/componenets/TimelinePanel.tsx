@@ -0,0 +1,77 @@
+import { motion } from "framer-motion";
+import type { ACLEvent, Actor } from "../acl";
+import { describeChange } from "../acl";
+
+// Slider over the event log. `seq` is the event whose resulting state is
+// shown, or null to follow the live state.
+export function TimelinePanel({
+    events,
+    actors,
+    seq,
+    onChange,
+}: {
+    events: ACLEvent[];
+    actors: Actor[];
+    seq: number | null;
+    onChange: (seq: number | null) => void;
+}) {
+    const latest = events[0]?.seq ?? 0;
+    const position = seq ?? latest;
+    const event = events.find((e) => e.seq === position);
+
+    return (
+        <div className="bg-slate-900 border-2 border-yellow-500/50 p-4 rounded-lg mb-6 text-left">
+            <div className="flex items-center gap-3 mb-2">
+                <h2 className="text-lg font-bold text-yellow-400">Timeline</h2>
+                <span className={`text-xs ${seq === null ? "text-green-300" : "text-orange-300"}`}>
+                    {seq === null ? "● Live" : `⏪ Viewing state after event #${seq} of ${latest}`}
+                </span>
+                {seq !== null && (
+                    <motion.button
+                        onClick={() => onChange(null)}
+                        className="ml-auto px-3 py-1 bg-yellow-500 hover:bg-yellow-400 rounded text-xs font-semibold text-slate-900"
+                        whileHover={{ scale: 1.05 }}
+                        whileTap={{ scale: 0.95 }}
+                    >
+                        Return to live
+                    </motion.button>
+                )}
+            </div>
+            <input
+                type="range"
+                min={0}
+                max={latest}
+                value={position}
+                disabled={latest === 0}
+                onChange={(e) => {
+                    const next = Number(e.target.value);
+                    onChange(next === latest ? null : next);
+                }}
+                aria-label="Event timeline"
+                className="w-full accent-yellow-400"
+            />
+            {event ? (
+                <div className="mt-2 text-xs">
+                    <div className="text-slate-300">
+                        <span className="font-semibold text-yellow-300">#{event.seq} {event.type}</span> — {event.details}
+                    </div>
+                    {event.changes.length === 0 ? (
+                        <div className="mt-1 text-slate-500">No ACL changes</div>
+                    ) : (
+                        <ul className="mt-1 font-mono">
+                            {event.changes.map((change, i) => (
+                                <li key={i} className={describeChange(change, actors).startsWith("−") ? "text-red-300" : "text-green-300"}>
+                                    {describeChange(change, actors)}
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+            ) : (
+                <div className="mt-2 text-xs text-slate-500">
+                    {latest === 0 ? "No events yet" : "Initial state, before any event"}
+                </div>
+            )}
+        </div>
+    );
+}
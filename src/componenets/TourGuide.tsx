@@ -0,0 +1,113 @@
+import { useEffect } from "react";
+import { motion } from "framer-motion";
+import type { Tour } from "../acl";
+import type { TourEngine } from "../hooks/useTour";
+
+const STATUS_TEXT = {
+    manual: null,
+    waiting: "Waiting for you to do this…",
+    done: "✓ Done",
+} as const;
+
+// Replaces the static "How to Use This Demo" cards: pick a tour, then follow
+// its steps while the highlighted part of the page waits for you
+export function TourGuide({
+    tours,
+    engine,
+    refresh,
+    onClose,
+}: {
+    tours: Tour[];
+    engine: TourEngine;
+    // Changes whenever the page may have rendered the step's target
+    refresh: unknown;
+    onClose: () => void;
+}) {
+    const { tour, step, index, status } = engine;
+    const target = step?.target;
+
+    useEffect(() => {
+        if (!target) return;
+        document.querySelector(`[data-tour="${target}"]`)?.scrollIntoView({ behavior: "smooth", block: "center" });
+    }, [target]);
+
+    useEffect(() => {
+        if (!target) return;
+        const element = document.querySelector(`[data-tour="${target}"]`);
+        element?.classList.add("tour-highlight");
+        return () => element?.classList.remove("tour-highlight");
+    }, [target, refresh]);
+
+    return (
+        <motion.div
+            className="mb-8 p-6 border-2 border-yellow-400/50 rounded-lg text-left"
+            initial={{ y: -20, opacity: 0 }}
+            animate={{ y: 0, opacity: 1 }}
+            transition={{ duration: 0.5, delay: 0.1 }}
+        >
+            <div className="flex items-start justify-between mb-4">
+                <h3 className="text-xl font-bold text-red-400">
+                    📖 {tour ? `${tour.title} — step ${index + 1} of ${tour.steps.length}` : "Guided Tours"}
+                </h3>
+                <motion.button onClick={onClose} className="text-yellow-400 hover:text-red-300 font-bold" whileHover={{ scale: 1.2 }}>
+                    ✕
+                </motion.button>
+            </div>
+
+            {tour && step ? (
+                <div className="p-4 bg-black rounded border-l-4 border-yellow-500">
+                    <h4 className="font-semibold text-yellow-400 mb-2">{step.title}</h4>
+                    <p className="text-slate-300 text-sm">{step.body}</p>
+                    {status.status === "retry" ? (
+                        <p className="text-red-400 text-xs mt-2">✗ {status.message}</p>
+                    ) : (
+                        STATUS_TEXT[status.status] && (
+                            <p className={`text-xs mt-2 ${status.status === "done" ? "text-green-400" : "text-yellow-200/60"}`}>
+                                {STATUS_TEXT[status.status]}
+                            </p>
+                        )
+                    )}
+                    <div className="flex gap-2 mt-4">
+                        <button
+                            onClick={engine.back}
+                            disabled={index === 0}
+                            className="px-3 py-1 bg-slate-700 hover:bg-slate-600 disabled:opacity-40 rounded text-sm"
+                        >
+                            ← Back
+                        </button>
+                        <button
+                            onClick={engine.next}
+                            className="px-3 py-1 bg-yellow-500 hover:bg-yellow-400 rounded text-sm font-semibold text-slate-900"
+                        >
+                            {status.status === "manual" || status.status === "done"
+                                ? index + 1 === tour.steps.length
+                                    ? "Finish"
+                                    : "Next →"
+                                : "Skip →"}
+                        </button>
+                        <button onClick={engine.exit} className="ml-auto px-3 py-1 text-slate-400 hover:text-slate-200 text-sm">
+                            Exit tour
+                        </button>
+                    </div>
+                </div>
+            ) : (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+                    {tours.map((t) => (
+                        <div key={t.id} className="p-4 bg-black rounded border-l-4 border-green-500">
+                            <h4 className="font-semibold text-green-400 mb-1">
+                                {t.title} {engine.completed.includes(t.id) && <span className="text-xs">✓ completed</span>}
+                            </h4>
+                            <p className="text-slate-300 text-xs mb-3">{t.description}</p>
+                            <button
+                                onClick={() => engine.start(t.id)}
+                                className="px-3 py-1 bg-green-600 hover:bg-green-500 rounded text-xs font-semibold"
+                            >
+                                {engine.completed.includes(t.id) ? "Take again" : "Start"} ({t.steps.length} steps)
+                            </button>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </motion.div>
+    );
+}
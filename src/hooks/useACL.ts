@@ -0,0 +1,66 @@
+import { useReducer } from "react";
+import { aclReducer, initialACLState, randomEntropy } from "../acl";
+import type { ACLAction, ACLState, Actor, ActorKind, Ciphertext, FheOperation, FheType, GuardianStatus, PermissionModel } from "../acl";
+
+// Six random hex digits, redrawn until no ciphertext uses them
+const newHandle = (ciphertexts: Ciphertext[]): string => {
+    for (;;) {
+        const bytes = crypto.getRandomValues(new Uint8Array(3));
+        const id = `ct_${Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("")}`;
+        if (!ciphertexts.some((c) => c.id === id)) return id;
+    }
+};
+
+// Gives an action the clock reading and randomness the pure reducer needs
+export const stamp = <A extends ACLAction>(action: A): A & { timestamp: string; entropy: string } => ({
+    ...action,
+    timestamp: new Date().toISOString(),
+    entropy: randomEntropy(action),
+});
+
+export function useACL(initialState: ACLState = initialACLState) {
+    const [state, rawDispatch] = useReducer(aclReducer, initialState);
+
+    const dispatch = (action: ACLAction) => rawDispatch(stamp(action));
+
+    return {
+        ...state,
+        state,
+        dispatch,
+        // Runs an already stamped command, e.g. one carrying the KMS answer a client collected
+        execute: rawDispatch,
+        addActor: (actor: Actor) => dispatch({ type: "addActor", actor }),
+        updateActor: (address: string, name: string, kind: ActorKind) =>
+            dispatch({ type: "updateActor", address, name, kind }),
+        removeActor: (address: string) => dispatch({ type: "removeActor", address }),
+        createCiphertext: (fheType: FheType, data: string, owner: string, contract: string) =>
+            dispatch({ type: "createCiphertext", id: newHandle(state.ciphertexts), fheType, data, owner, contract }),
+        compute: (op: FheOperation, inputs: string[], caller: string) =>
+            dispatch({ type: "compute", id: newHandle(state.ciphertexts), op, inputs, caller }),
+        allow: (ciphertext: string, address: string, expiresAt: number | null = null, reason = "") =>
+            dispatch({ type: "allow", ciphertext, address, expiresAt, reason }),
+        allowThis: (ciphertext: string, contract: string) => dispatch({ type: "allowThis", ciphertext, contract }),
+        allowTransient: (ciphertext: string, address: string) =>
+            dispatch({ type: "allowTransient", ciphertext, address }),
+        revoke: (ciphertext: string, address: string) => dispatch({ type: "revoke", ciphertext, address }),
+        setPermissionModel: (model: PermissionModel) => dispatch({ type: "setPermissionModel", model }),
+        advanceClock: (blocks: number) => dispatch({ type: "advanceClock", blocks }),
+        configureKMS: (size: number, threshold: number) => dispatch({ type: "configureKMS", size, threshold }),
+        setGuardianStatus: (guardian: number, status: GuardianStatus) =>
+            dispatch({ type: "setGuardianStatus", guardian, status }),
+        makePublic: (ciphertext: string) => dispatch({ type: "makePubliclyDecryptable", ciphertext }),
+        userDecrypt: (ciphertext: string, user: string, contract: string, signer: string) =>
+            dispatch({ type: "userDecrypt", ciphertext, user, contract, signer }),
+        publicDecrypt: (ciphertext: string, requester: string) =>
+            dispatch({ type: "publicDecrypt", ciphertext, requester }),
+        checkSender: (ciphertext: string, sender: string, contract: string) =>
+            dispatch({ type: "checkSender", ciphertext, sender, contract }),
+        callContract: (caller: string, contract: string, handles: string[], allowTransient: boolean) =>
+            dispatch({ type: "callContract", caller, contract, handles, allowTransient }),
+        returnCall: () => dispatch({ type: "returnCall" }),
+        beginTransaction: () => dispatch({ type: "beginTx" }),
+        commitTransaction: () => dispatch({ type: "commitTx" }),
+        revertTransaction: () => dispatch({ type: "revertTx" }),
+        loadState: (state: ACLState) => dispatch({ type: "loadState", state }),
+    };
+}
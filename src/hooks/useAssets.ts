@@ -1,50 +1,53 @@
-import { useState, useEffect } from "react";
+import { useEffect, useState } from "react";
+import { acquireAsset, assetKey, peekAsset } from "../assets/cache";
+import type { AssetEntry, AssetKind, AssetResult, AssetState } from "../assets/cache";
 
-export function useAsset(path: string, type: "image" | "audio" | "json") {
-    const [status, setStatus] = useState<"loading" | "loaded" | "missing">("loading");
-    const [data, setData] = useState<any>(null);
+// Loads one asset through the shared cache; cached assets are available on the
+// first render, so a remount never flashes a loading state
+export function useAsset<K extends AssetKind>(path: string, kind: K): AssetState<K> {
+    const key = assetKey(path, kind);
+    const [settled, setSettled] = useState<{ key: string; result: AssetResult<K> } | null>(null);
 
     useEffect(() => {
-        const fullPath = `${import.meta.env.BASE_URL}${path}`;
+        const { result, release } = acquireAsset(path, kind);
+        let active = true;
+        result.then((r) => active && setSettled({ key, result: r }));
+        return () => {
+            active = false;
+            release();
+        };
+    }, [path, kind, key]);
 
-        async function load() {
-            try {
-                if (type === "image") {
-                    const img = new Image();
-                    img.src = fullPath;
-                    img.onload = () => {
-                        setStatus("loaded");
-                        setData(fullPath);
-                    };
-                    img.onerror = () => setStatus("missing");
-                }
+    return peekAsset(path, kind) ?? (settled?.key === key ? settled.result : { status: "loading" });
+}
 
-                if (type === "audio") {
-                    const audio = new Audio(fullPath);
-                    audio.oncanplaythrough = () => {
-                        setStatus("loaded");
-                        setData(fullPath);
-                    };
-                    audio.onerror = () => setStatus("missing");
-                }
+export interface PreloadProgress {
+    total: number;
+    settled: number;
+    // Entries that turned out missing or failed to load
+    failed: AssetEntry[];
+    ready: boolean;
+}
 
-                if (type === "json") {
-                    const response = await fetch(fullPath);
-                    if (!response.ok) {
-                        setStatus("missing");
-                        return;
-                    }
-                    const json = await response.json();
-                    setData(json);
-                    setStatus("loaded");
-                }
-            } catch (e) {
-                setStatus("missing");
-            }
-        }
+// Loads a whole manifest and reports how far along it is
+export function usePreload(manifest: AssetEntry[]): PreloadProgress {
+    const [results, setResults] = useState<Record<string, AssetResult>>({});
 
-        load();
-    }, [path, type]);
+    useEffect(() => {
+        let active = true;
+        const releases = manifest.map(({ path, kind }) => {
+            const { result, release } = acquireAsset(path, kind);
+            result.then((r) => active && setResults((prev) => ({ ...prev, [assetKey(path, kind)]: r })));
+            return release;
+        });
+        return () => {
+            active = false;
+            releases.forEach((release) => release());
+        };
+    }, [manifest]);
 
-    return { status, data };
+    const resultOf = ({ path, kind }: AssetEntry) => peekAsset(path, kind) ?? results[assetKey(path, kind)];
+    const settled = manifest.filter(resultOf);
+    const failed = settled.filter((entry) => resultOf(entry)?.status !== "loaded");
+    return { total: manifest.length, settled: settled.length, failed, ready: settled.length === manifest.length };
 }
@@ -0,0 +1,62 @@
+import { createContext, useContext, useEffect, useEffectEvent, useRef } from "react";
+import type { ACLEvent } from "../acl";
+import { OUTCOME_EVENTS, isDeniedEvent } from "../acl";
+import type { SoundName } from "../assets/manifest";
+
+export interface AudioSettings {
+    muted: boolean;
+    volume: number;
+    ambiance: boolean;
+    // User-chosen silence, independent of the mute toggle
+    quiet: boolean;
+}
+
+export interface AudioControls extends AudioSettings {
+    // True when motion is reduced, by the OS or the in-app setting; sound is then suppressed too
+    reducedMotion: boolean;
+    // Nothing plays: muted, quiet mode or reduced motion
+    silent: boolean;
+    play: (sound: SoundName) => void;
+    update: (settings: Partial<AudioSettings>) => void;
+}
+
+export const DEFAULT_AUDIO_SETTINGS: AudioSettings = { muted: false, volume: 0.6, ambiance: false, quiet: false };
+
+export const SoundContext = createContext<AudioControls | null>(null);
+
+export function useAudio(): AudioControls {
+    const audio = useContext(SoundContext);
+    if (!audio) throw new Error("useAudio must be used inside <AudioProvider>");
+    return audio;
+}
+
+// Sound for an ACL event: denials and refusals, successful outcomes, or a
+// plain step for grants and other bookkeeping. Transaction markers stay quiet.
+export const soundForEvent = (event: ACLEvent): SoundName | null => {
+    if (event.type === "tx_begin" || event.type === "tx_end" || event.type === "kms_share") return null;
+    if (isDeniedEvent(event)) return "dialog";
+    return OUTCOME_EVENTS[event.type] === "success" ? "powerup" : "step";
+};
+
+// Most significant first: a denial outweighs a success, which outweighs a step
+const SOUND_PRIORITY: SoundName[] = ["dialog", "powerup", "step"];
+
+// Plays one sound per batch of events logged after the caller mounted, for
+// the most significant event in the batch (a scenario step logs several)
+export function useEventSounds(events: ACLEvent[]) {
+    const { play } = useAudio();
+    const head = events[0];
+    // Sequence number of the newest event already heard
+    const heard = useRef(head?.seq ?? 0);
+    const playSince = useEffectEvent((since: number) => {
+        const sounds = events.filter((e) => e.seq > since).map(soundForEvent);
+        const sound = SOUND_PRIORITY.find((s) => sounds.includes(s));
+        if (sound) play(sound);
+    });
+
+    useEffect(() => {
+        const since = heard.current;
+        heard.current = head?.seq ?? 0;
+        if (head && head.seq > since) playSince(since);
+    }, [head]);
+}
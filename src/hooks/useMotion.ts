@@ -0,0 +1,29 @@
+import { createContext, useContext } from "react";
+
+// "system" follows the OS setting; the others override it for this demo only
+export type MotionPreference = "system" | "reduce" | "full";
+
+export interface MotionControls {
+    preference: MotionPreference;
+    // Whether animations are currently reduced, whatever the reason
+    reduced: boolean;
+    setPreference: (preference: MotionPreference) => void;
+}
+
+export const MotionContext = createContext<MotionControls | null>(null);
+
+export function useMotion(): MotionControls {
+    const motion = useContext(MotionContext);
+    if (!motion) throw new Error("useMotion must be used inside <MotionProvider>");
+    return motion;
+}
+
+const REDUCED_MOTION = "(prefers-reduced-motion: reduce)";
+
+export const subscribeReducedMotion = (onChange: () => void) => {
+    const query = window.matchMedia(REDUCED_MOTION);
+    query.addEventListener("change", onChange);
+    return () => query.removeEventListener("change", onChange);
+};
+
+export const prefersReducedMotion = () => window.matchMedia(REDUCED_MOTION).matches;
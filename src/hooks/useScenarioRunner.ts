@@ -0,0 +1,61 @@
+import { useEffect, useEffectEvent, useState } from "react";
+import { runStep, scenarioState } from "../acl";
+import type { ACLState, Scenario, StepResult } from "../acl";
+
+const PLAY_INTERVAL_MS = 1200;
+
+// Steps through a scenario, handing every resulting ACL state to `onState`.
+// Each applied step is kept so stepping back is just popping the history.
+export function useScenarioRunner(onState: (state: ACLState) => void) {
+    const [scenario, setScenario] = useState<Scenario | null>(null);
+    const [history, setHistory] = useState<{ state: ACLState; result: StepResult }[]>([]);
+    const [playing, setPlaying] = useState(false);
+
+    const position = history.length;
+    const done = !scenario || position >= scenario.steps.length;
+
+    const load = (next: Scenario) => {
+        setScenario(next);
+        setHistory([]);
+        setPlaying(false);
+        onState(scenarioState(next));
+    };
+
+    const stepForward = () => {
+        if (!scenario || done) return;
+        const current = history.at(-1)?.state ?? scenarioState(scenario);
+        const applied = runStep(current, scenario.steps[position], new Date().toISOString());
+        setHistory([...history, applied]);
+        if (position + 1 >= scenario.steps.length) setPlaying(false);
+        onState(applied.state);
+    };
+
+    const stepBack = () => {
+        if (!scenario || position === 0) return;
+        const remaining = history.slice(0, -1);
+        setHistory(remaining);
+        setPlaying(false);
+        onState(remaining.at(-1)?.state ?? scenarioState(scenario));
+    };
+
+    const tick = useEffectEvent(stepForward);
+
+    useEffect(() => {
+        if (!playing) return;
+        const timer = setTimeout(tick, PLAY_INTERVAL_MS);
+        return () => clearTimeout(timer);
+    }, [playing, position]);
+
+    return {
+        scenario,
+        position,
+        results: history.map((h) => h.result),
+        playing,
+        done,
+        load,
+        play: () => !done && setPlaying(true),
+        pause: () => setPlaying(false),
+        stepForward,
+        stepBack,
+    };
+}
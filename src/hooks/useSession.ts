@@ -0,0 +1,59 @@
+import { useEffect, useEffectEvent } from "react";
+import { SESSION_VERSION, decodeSessionFragment, encodeSessionFragment, parseSession, serializeSession } from "../acl";
+import type { ACLState, Session } from "../acl";
+
+const STORAGE_KEY = "zama-acl-session";
+const FRAGMENT_PREFIX = "#session=";
+
+export function loadStoredSession(): Session | null {
+    try {
+        const json = localStorage.getItem(STORAGE_KEY);
+        return json ? parseSession(json) : null;
+    } catch {
+        return null;
+    }
+}
+
+// Mirrors the session into localStorage, restores one shared through a URL
+// fragment, and builds share links for the current one
+export function useSession(state: ACLState, selectedCipher: string | null, restore: (session: Session) => void) {
+    useEffect(() => {
+        try {
+            localStorage.setItem(STORAGE_KEY, serializeSession({ version: SESSION_VERSION, state, selectedCipher }));
+        } catch {
+            // Storage full or disabled: the session simply won't survive a reload
+        }
+    }, [state, selectedCipher]);
+
+    const restoreShared = useEffectEvent(restore);
+
+    useEffect(() => {
+        const { hash, pathname, search } = window.location;
+        if (!hash.startsWith(FRAGMENT_PREFIX)) return;
+        decodeSessionFragment(hash.slice(FRAGMENT_PREFIX.length)).then((session) => {
+            if (session) restoreShared(session);
+            // Drop the fragment so a reload falls back to the stored session
+            window.history.replaceState(null, "", pathname + search);
+        });
+    }, []);
+
+    // Copies a share link to the clipboard, or puts it in the address bar
+    // when the clipboard is unavailable
+    const share = async (): Promise<{ url: string; copied: boolean }> => {
+        const fragment = await encodeSessionFragment({ version: SESSION_VERSION, state, selectedCipher });
+        const url = `${window.location.origin}${window.location.pathname}${FRAGMENT_PREFIX}${fragment}`;
+        const copied = (await navigator.clipboard?.writeText(url).then(() => true, () => false)) ?? false;
+        if (!copied) window.history.replaceState(null, "", url);
+        return { url, copied };
+    };
+
+    const clear = () => {
+        try {
+            localStorage.removeItem(STORAGE_KEY);
+        } catch {
+            // Nothing stored to clear
+        }
+    };
+
+    return { share, clear };
+}
@@ -0,0 +1,77 @@
+import { useEffect, useEffectEvent, useState } from "react";
+import { evaluateStep } from "../acl";
+import type { Tour, TourContext, TourStepStatus } from "../acl";
+
+const STORAGE_KEY = "zama-acl-tour";
+// Pause on a completed step so the user sees the tick before it moves on
+const ADVANCE_MS = 900;
+
+interface TourProgress {
+    tourId: string | null;
+    step: number;
+    // Sequence number of the newest event when the step began
+    since: number;
+    completed: string[];
+}
+
+const NO_PROGRESS: TourProgress = { tourId: null, step: 0, since: 0, completed: [] };
+
+function loadProgress(): TourProgress {
+    try {
+        const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "null");
+        return stored && typeof stored === "object" ? { ...NO_PROGRESS, ...stored } : NO_PROGRESS;
+    } catch {
+        return NO_PROGRESS;
+    }
+}
+
+// Runs one tour at a time over the live ACL state and remembers where the
+// user got to across reloads
+export function useTour(tours: Tour[], context: TourContext) {
+    const [progress, setProgress] = useState(loadProgress);
+
+    useEffect(() => {
+        try {
+            localStorage.setItem(STORAGE_KEY, JSON.stringify(progress));
+        } catch {
+            // Storage disabled: progress lasts for this visit only
+        }
+    }, [progress]);
+
+    const tour = tours.find((t) => t.id === progress.tourId) ?? null;
+    const step = tour?.steps[progress.step] ?? null;
+    const headSeq = context.state.events[0]?.seq ?? 0;
+    // A new session restarts numbering below the anchor; count its events from the start
+    const since = progress.since > headSeq ? 0 : progress.since;
+    const status: TourStepStatus = step ? evaluateStep(step, context, since) : { status: "manual" };
+
+    const goTo = (index: number) => setProgress((p) => ({ ...p, step: index, since: headSeq }));
+
+    const next = () => {
+        if (!tour) return;
+        if (progress.step + 1 < tour.steps.length) return goTo(progress.step + 1);
+        setProgress((p) => ({ ...NO_PROGRESS, completed: [...new Set([...p.completed, tour.id])] }));
+    };
+
+    const advance = useEffectEvent(next);
+
+    useEffect(() => {
+        if (status.status !== "done") return;
+        const timer = setTimeout(advance, ADVANCE_MS);
+        return () => clearTimeout(timer);
+    }, [status.status, progress.tourId, progress.step]);
+
+    return {
+        tour,
+        step,
+        index: progress.step,
+        status,
+        completed: progress.completed,
+        start: (tourId: string) => setProgress((p) => ({ ...p, tourId, step: 0, since: headSeq })),
+        next,
+        back: () => goTo(Math.max(0, progress.step - 1)),
+        exit: () => setProgress((p) => ({ ...NO_PROGRESS, completed: p.completed })),
+    };
+}
+
+export type TourEngine = ReturnType<typeof useTour>;
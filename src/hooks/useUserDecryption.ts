@@ -0,0 +1,105 @@
+import { useEffect, useRef } from "react";
+import {
+    SECONDS_PER_DAY,
+    actorsOfKind,
+    buildUserDecryptRequest,
+    collectUserDecryption,
+    decryptReencrypted,
+    formatValue,
+    generateActorKeys,
+    reencrypt,
+    signRequest,
+    verifyRequest,
+} from "../acl";
+import type { ACLCommand, ACLState, ActorKeys, CheckResult, UserDecryptRequest } from "../acl";
+import { stamp } from "./useACL";
+
+const ZERO_ADDRESS = `0x${"0".repeat(40)}`;
+
+export interface UserDecryption {
+    user: string;
+    request: UserDecryptRequest;
+    signature: string;
+    verification: CheckResult;
+    // KMS answer, readable only with the user's private key; null when refused
+    reencrypted: string | null;
+}
+
+export interface RequestWindow {
+    // How long ago the request became valid, and for how long it stays valid
+    startDaysAgo: number;
+    durationDays: number;
+}
+
+// Runs the async half of a user decryption: keys, EIP-712 signature, Gateway
+// verification and re-encryption of what the reducer's KMS decrypted
+export function useUserDecryption(state: ACLState, execute: (command: ACLCommand) => void) {
+    // Keys live for the page's lifetime only; they are never persisted
+    const keyring = useRef(new Map<string, Promise<ActorKeys>>());
+    // The state may move on while keys are generated or requests signed
+    const latest = useRef(state);
+    useEffect(() => {
+        latest.current = state;
+    }, [state]);
+
+    const keysOf = (address: string) => {
+        let keys = keyring.current.get(address);
+        if (!keys) {
+            keys = generateActorKeys();
+            keyring.current.set(address, keys);
+        }
+        return keys;
+    };
+
+    const request = async (
+        ciphertext: string,
+        user: string,
+        contract: string,
+        signer: string,
+        validity: RequestWindow = { startDaysAgo: 0, durationDays: 1 }
+    ): Promise<UserDecryption | null> => {
+        if (!latest.current.ciphertexts.some((c) => c.id === ciphertext)) return null;
+        const [userKeys, signerKeys] = await Promise.all([keysOf(user), keysOf(signer)]);
+
+        // Client side: the user's public key goes into the request, which whoever
+        // holds the wallet signs
+        const now = Math.floor(Date.now() / 1000);
+        const gateway = actorsOfKind(latest.current.actors, "gateway")[0]?.address ?? ZERO_ADDRESS;
+        const typed = buildUserDecryptRequest(
+            {
+                publicKey: userKeys.publicKey,
+                contractAddresses: [contract],
+                startTimestamp: now - Math.round(validity.startDaysAgo * SECONDS_PER_DAY),
+                durationDays: validity.durationDays,
+            },
+            gateway
+        );
+        const signature = await signRequest(typed, signerKeys.signing.privateKey);
+
+        // Gateway: signature against the user's registered key, before any ACL lookup
+        const verification = await verifyRequest(typed, signature, userKeys.signing.publicKey, contract, now);
+
+        // ACL check and guardian quorum, decrypted once: the command carries the
+        // guardians' answer to the reducer, the cleartext never leaves this call
+        const cipher = latest.current.ciphertexts.find((c) => c.id === ciphertext);
+        if (!cipher) return null;
+        const command = stamp({ type: "userDecrypt", ciphertext, user, contract, signer });
+        const { kms, value } = collectUserDecryption(latest.current, cipher, user, contract, verification, command.entropy);
+        execute({ ...command, eip712: { signature: verification, kms } });
+        const reencrypted = value ? await reencrypt(formatValue(value), typed.message.publicKey) : null;
+        return { user, request: typed, signature, verification, reencrypted };
+    };
+
+    // Tries to open a re-encrypted result with `holder`'s private key
+    const open = async (result: UserDecryption, holder: string): Promise<CheckResult> => {
+        if (!result.reencrypted) return { allowed: false, reason: "the KMS refused the request" };
+        try {
+            const { encryption } = await keysOf(holder);
+            return { allowed: true, reason: await decryptReencrypted(result.reencrypted, encryption.privateKey) };
+        } catch {
+            return { allowed: false, reason: "this private key cannot open the result" };
+        }
+    };
+
+    return { request, open };
+}
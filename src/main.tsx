@@ -2,10 +2,16 @@ import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
 import './index.css'
 import App from './App.tsx'
+import { AudioProvider } from './componenets/AudioProvider.tsx'
+import { MotionProvider } from './componenets/MotionProvider.tsx'
 
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
-    <App />
+    <MotionProvider>
+      <AudioProvider>
+        <App />
+      </AudioProvider>
+    </MotionProvider>
   </StrictMode>,
 )
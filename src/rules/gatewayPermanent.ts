@@ -0,0 +1,24 @@
+import { causeOf, describeAddress } from "../acl";
+import type { PolicyRule } from "../acl";
+
+export const gatewayPermanentRule: PolicyRule = {
+  id: "gateway-permanent",
+  title: "Permanent grant to a gateway",
+  severity: "medium",
+  advice:
+    "The Gateway only relays decryption requests. FHE.allowTransient() for the transaction that asks it to decrypt is enough; a permanent grant lets it request the value again at any time.",
+  check: ({ actors, ciphertexts, events }) =>
+    ciphertexts.flatMap((c) =>
+      c.permanentACL
+        .filter((address) => actors.some((a) => a.address === address && a.kind === "gateway"))
+        .map((address) => ({
+          ciphertext: c.id,
+          event: causeOf(
+            events,
+            (change) =>
+              change.kind === "grant" && change.list === "permanent" && change.ciphertext === c.id && change.address === address
+          ),
+          message: `${describeAddress(actors, address)} holds permanent access to ${c.id}`,
+        }))
+    ),
+};
@@ -0,0 +1,14 @@
+import type { PolicyRule } from "../acl";
+import { gatewayPermanentRule } from "./gatewayPermanent";
+import { missingAllowThisRule } from "./missingAllowThis";
+import { publicBalanceRule } from "./publicBalance";
+import { publicDerivedRule } from "./publicDerived";
+import { uncheckedSenderRule } from "./uncheckedSender";
+
+export const builtInRules: PolicyRule[] = [
+  publicBalanceRule,
+  uncheckedSenderRule,
+  gatewayPermanentRule,
+  missingAllowThisRule,
+  publicDerivedRule,
+];
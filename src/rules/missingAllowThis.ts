@@ -0,0 +1,21 @@
+import { causeOf, describeAddress } from "../acl";
+import type { PolicyRule } from "../acl";
+
+export const missingAllowThisRule: PolicyRule = {
+  id: "missing-allow-this",
+  title: "Derived value without allowThis",
+  severity: "medium",
+  advice:
+    "An FHE operation returns a fresh handle with an empty ACL. Unless the contract calls FHE.allowThis() on it before the transaction ends, it cannot use or share the result in a later one.",
+  check: ({ actors, ciphertexts, events, tx }) => {
+    // A handle computed in the open transaction can still get its allowThis
+    const pending = (id: string) => !!tx && !tx.snapshot.some((c) => c.id === id);
+    return ciphertexts
+      .filter((c) => c.derivedFrom && !c.permanentACL.includes(c.owner) && !pending(c.id))
+      .map((c) => ({
+        ciphertext: c.id,
+        event: causeOf(events, (change) => change.kind === "create" && change.ciphertext.id === c.id),
+        message: `${describeAddress(actors, c.owner)} computed ${c.id} with FHE.${c.derivedFrom!.op}() but is not on its ACL`,
+      }));
+  },
+};
@@ -0,0 +1,19 @@
+import { causeOf, describeAddress, findActor } from "../acl";
+import type { PolicyRule } from "../acl";
+
+// Inputs owned by an account are its balances, votes and bids
+export const publicBalanceRule: PolicyRule = {
+  id: "public-balance",
+  title: "Private input made publicly decryptable",
+  severity: "high",
+  advice:
+    "Anyone can read a publicly decryptable handle through the Gateway, forever. Publish a derived result (a winner, a total) instead and keep the input itself on the ACL of those who need it.",
+  check: ({ actors, ciphertexts, events }) =>
+    ciphertexts
+      .filter((c) => c.isPublic && !c.derivedFrom && findActor(actors, c.owner)?.kind === "eoa")
+      .map((c) => ({
+        ciphertext: c.id,
+        event: causeOf(events, (change) => change.kind === "public" && change.ciphertext === c.id),
+        message: `${c.id}, an input owned by ${describeAddress(actors, c.owner)}, can be decrypted by anyone`,
+      })),
+};
@@ -0,0 +1,23 @@
+import { causeOf } from "../acl";
+import type { PolicyRule } from "../acl";
+
+export const publicDerivedRule: PolicyRule = {
+  id: "public-derived",
+  title: "Public result of private inputs",
+  severity: "low",
+  advice:
+    "A published result says something about the values it was computed from: FHE.gt(balance, 100) reveals which side of 100 the balance is on. Make sure that is what the contract means to disclose.",
+  check: ({ ciphertexts, events }) =>
+    ciphertexts.flatMap((c) => {
+      if (!c.isPublic || !c.derivedFrom) return [];
+      const hidden = c.derivedFrom.inputs.filter((id) => !ciphertexts.find((i) => i.id === id)?.isPublic);
+      if (hidden.length === 0) return [];
+      return [
+        {
+          ciphertext: c.id,
+          event: causeOf(events, (change) => change.kind === "public" && change.ciphertext === c.id),
+          message: `${c.id} = FHE.${c.derivedFrom.op}(…) is public and leaks information about ${hidden.join(", ")}`,
+        },
+      ];
+    }),
+};
@@ -0,0 +1,54 @@
+import { describeAddress } from "../acl";
+import type { Finding, PolicyRule } from "../acl";
+
+// "Attack: Inference" (COMPREHENSIVE_THREAD.md): anyone who sees a handle
+// on-chain can pass it to a contract that is allowed on it. If the contract
+// computes on it without require(FHE.isSenderAllowed(handle)), the caller
+// learns something about a value they were never granted.
+export const uncheckedSenderRule: PolicyRule = {
+  id: "unchecked-sender",
+  title: "Inference: passed handle used without isSenderAllowed",
+  severity: "high",
+  advice:
+    "Before computing on a handle received as an argument, a contract should require(FHE.isSenderAllowed(handle)). Then a caller who merely found the handle on-chain makes the transaction revert instead of learning from the result.",
+  check: ({ actors, events }) => {
+    const findings: Omit<Finding, "rule">[] = [];
+    // Contract and arguments of each open call, outermost first
+    const frames: { contract: string; handles: string[] }[] = [];
+    // "<contract address> <handle>" pairs that passed the sender check in this transaction
+    const checked = new Set<string>();
+
+    for (const event of [...events].reverse()) {
+      switch (event.type) {
+        case "call":
+          frames.push({ contract: event.address ?? "", handles: event.handles ?? [] });
+          break;
+        case "call_return":
+          frames.pop();
+          break;
+        case "tx_end":
+          frames.length = 0;
+          checked.clear();
+          break;
+        case "sender_allowed":
+          checked.add(`${event.contract} ${event.ciphertext}`);
+          break;
+        case "compute": {
+          const frame = frames[frames.length - 1];
+          if (!frame || event.address !== frame.contract) break;
+          const inputs = event.changes.flatMap((c) => (c.kind === "create" ? (c.ciphertext.derivedFrom?.inputs ?? []) : []));
+          for (const id of new Set(inputs)) {
+            if (!frame.handles.includes(id) || checked.has(`${frame.contract} ${id}`)) continue;
+            findings.push({
+              ciphertext: id,
+              event: event.seq,
+              message: `${describeAddress(actors, frame.contract)} computed on ${id}, passed in by its caller, without checking FHE.isSenderAllowed(${id})`,
+            });
+          }
+          break;
+        }
+      }
+    }
+    return findings;
+  },
+};
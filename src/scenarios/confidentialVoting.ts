@@ -0,0 +1,68 @@
+import type { Actor, Scenario } from "../acl";
+
+const voter1 = "0x1234a11ce0000000000000000000000000000001";
+const voter2 = "0x1234b0b000000000000000000000000000000002";
+const voter3 = "0x1234ca201000000000000000000000000000000a";
+const voting = "0x5678b07e0000000000000000000000000000000b";
+
+const actors: Actor[] = [
+  { address: voter1, name: "Alice", kind: "eoa" },
+  { address: voter2, name: "Bob", kind: "eoa" },
+  { address: voter3, name: "Carol", kind: "eoa" },
+  { address: voting, name: "Voting", kind: "contract" },
+  { address: "0x9999ca7e00000000000000000000000000000004", name: "Gateway", kind: "gateway" },
+];
+
+export const confidentialVoting: Scenario = {
+  id: "confidential-voting",
+  title: "Confidential voting",
+  description: "Votes stay encrypted while the contract tallies them; only the final tally is made public.",
+  actors,
+  steps: [
+    {
+      action: { type: "createCiphertext", id: "ct_vote1", fheType: "euint32", data: "1", owner: voter1, contract: voting },
+      note: "Alice casts an encrypted yes (1)",
+    },
+    {
+      action: { type: "createCiphertext", id: "ct_vote2", fheType: "euint32", data: "0", owner: voter2, contract: voting },
+      note: "Bob casts an encrypted no (0)",
+    },
+    {
+      action: { type: "createCiphertext", id: "ct_vote3", fheType: "euint32", data: "1", owner: voter3, contract: voting },
+      note: "Carol casts an encrypted yes (1)",
+    },
+    {
+      action: { type: "userDecrypt", ciphertext: "ct_vote1", user: voter2, contract: voting, signer: voter2 },
+      note: "Bob tries to peek at Alice's vote",
+      expect: "denied",
+    },
+    {
+      action: { type: "compute", id: "ct_partial", op: "add", inputs: ["ct_vote1", "ct_vote2"], caller: voting },
+      note: "The contract adds the first two votes",
+      expect: "success",
+    },
+    { action: { type: "allowThis", ciphertext: "ct_partial", contract: voting }, note: "FHE.allowThis(partial) so the tally can continue" },
+    {
+      action: { type: "compute", id: "ct_tally", op: "add", inputs: ["ct_partial", "ct_vote3"], caller: voting },
+      note: "The contract adds the last vote",
+      expect: "success",
+    },
+    { action: { type: "allowThis", ciphertext: "ct_tally", contract: voting }, note: "FHE.allowThis(tally)" },
+    {
+      action: { type: "publicDecrypt", ciphertext: "ct_tally", requester: voter1 },
+      note: "Before the deadline nobody can read the tally",
+      expect: "denied",
+    },
+    { action: { type: "makePubliclyDecryptable", ciphertext: "ct_tally" }, note: "Deadline reached: FHE.makePubliclyDecryptable(tally)" },
+    {
+      action: { type: "publicDecrypt", ciphertext: "ct_tally", requester: voter2 },
+      note: "Anyone can now read the final tally",
+      expect: "success",
+    },
+    {
+      action: { type: "userDecrypt", ciphertext: "ct_vote1", user: voter3, contract: voting, signer: voter3 },
+      note: "Individual votes remain secret",
+      expect: "denied",
+    },
+  ],
+};
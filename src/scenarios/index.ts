@@ -0,0 +1,6 @@
+import type { Scenario } from "../acl";
+import { confidentialVoting } from "./confidentialVoting";
+import { privateTokenTransfer } from "./privateToken";
+import { sealedBidAuction } from "./sealedBidAuction";
+
+export const builtInScenarios: Scenario[] = [privateTokenTransfer, confidentialVoting, sealedBidAuction];
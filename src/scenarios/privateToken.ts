@@ -0,0 +1,87 @@
+import type { Actor, Scenario } from "../acl";
+
+const alice = "0x1234a11ce0000000000000000000000000000001";
+const bob = "0x1234b0b000000000000000000000000000000002";
+const token = "0x5678c0de00000000000000000000000000000003";
+const mallory = "0xbad0bad000000000000000000000000000000006";
+
+const actors: Actor[] = [
+  { address: alice, name: "Alice", kind: "eoa" },
+  { address: bob, name: "Bob", kind: "eoa" },
+  { address: token, name: "PrivateToken", kind: "contract" },
+  { address: "0x9999ca7e00000000000000000000000000000004", name: "Gateway", kind: "gateway" },
+  { address: mallory, name: "Mallory", kind: "eoa" },
+];
+
+// The "ACL Flow for a Transfer" walkthrough from COMPREHENSIVE_THREAD.md
+export const privateTokenTransfer: Scenario = {
+  id: "private-token-transfer",
+  title: "PrivateToken transfer",
+  description: "Alice sends 100 encrypted tokens to Bob; only each owner can read their new balance.",
+  actors,
+  steps: [
+    {
+      action: { type: "createCiphertext", id: "ct_balAlice", fheType: "euint64", data: "1000", owner: alice, contract: token },
+      note: "balances[alice] = 1000, readable by Alice and the contract",
+    },
+    {
+      action: { type: "createCiphertext", id: "ct_balBob", fheType: "euint64", data: "500", owner: bob, contract: token },
+      note: "balances[bob] = 500, readable by Bob and the contract",
+    },
+    {
+      action: { type: "createCiphertext", id: "ct_amount", fheType: "euint64", data: "100", owner: alice, contract: token },
+      note: "Alice encrypts the amount she wants to send",
+    },
+    { action: { type: "beginTx" }, note: "Alice calls transfer(bob, encryptedAmount)" },
+    {
+      action: { type: "checkSender", ciphertext: "ct_amount", sender: alice, contract: token },
+      note: "require(FHE.isSenderAllowed(encryptedAmount)) — Alice created it",
+      expect: "success",
+    },
+    {
+      action: { type: "compute", id: "ct_newBalAlice", op: "sub", inputs: ["ct_balAlice", "ct_amount"], caller: token },
+      note: "balances[alice] = FHE.sub(senderBal, encryptedAmount)",
+      expect: "success",
+    },
+    {
+      action: { type: "compute", id: "ct_newBalBob", op: "add", inputs: ["ct_balBob", "ct_amount"], caller: token },
+      note: "balances[bob] = FHE.add(recipientBal, encryptedAmount)",
+      expect: "success",
+    },
+    {
+      action: { type: "userDecrypt", ciphertext: "ct_newBalAlice", user: alice, contract: token, signer: alice },
+      note: "The new balance is a fresh handle: Alice cannot read it yet",
+      expect: "denied",
+    },
+    { action: { type: "allowThis", ciphertext: "ct_newBalAlice", contract: token }, note: "FHE.allowThis(balances[msg.sender])" },
+    { action: { type: "allow", ciphertext: "ct_newBalAlice", address: alice }, note: "FHE.allow(balances[msg.sender], msg.sender)" },
+    { action: { type: "allowThis", ciphertext: "ct_newBalBob", contract: token }, note: "FHE.allowThis(balances[to])" },
+    { action: { type: "allow", ciphertext: "ct_newBalBob", address: bob }, note: "FHE.allow(balances[to], to)" },
+    { action: { type: "commitTx" }, note: "The transfer transaction is mined" },
+    {
+      action: { type: "userDecrypt", ciphertext: "ct_newBalAlice", user: alice, contract: token, signer: alice },
+      note: "Alice decrypts her new balance",
+      expect: "success",
+    },
+    {
+      action: { type: "userDecrypt", ciphertext: "ct_newBalBob", user: bob, contract: token, signer: bob },
+      note: "Bob decrypts his new balance",
+      expect: "success",
+    },
+    {
+      action: { type: "userDecrypt", ciphertext: "ct_newBalAlice", user: bob, contract: token, signer: bob },
+      note: "Bob cannot read Alice's balance",
+      expect: "denied",
+    },
+    {
+      action: { type: "userDecrypt", ciphertext: "ct_newBalAlice", user: mallory, contract: token, signer: mallory },
+      note: "Mallory tries to decrypt Alice's balance and learns nothing",
+      expect: "denied",
+    },
+    {
+      action: { type: "userDecrypt", ciphertext: "ct_newBalAlice", user: alice, contract: token, signer: mallory },
+      note: "Mallory forges a request in Alice's name; the signature gives her away",
+      expect: "denied",
+    },
+  ],
+};
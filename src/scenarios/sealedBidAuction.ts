@@ -0,0 +1,81 @@
+import type { Actor, Scenario } from "../acl";
+
+const alice = "0x1234a11ce0000000000000000000000000000001";
+const bob = "0x1234b0b000000000000000000000000000000002";
+const carol = "0x1234ca201000000000000000000000000000000a";
+const auction = "0x5678a0c7100000000000000000000000000000c0";
+const gateway = "0x9999ca7e00000000000000000000000000000004";
+
+const actors: Actor[] = [
+  { address: alice, name: "Alice", kind: "eoa" },
+  { address: bob, name: "Bob", kind: "eoa" },
+  { address: carol, name: "Carol", kind: "eoa" },
+  { address: auction, name: "Auction", kind: "contract" },
+  { address: gateway, name: "Gateway", kind: "gateway" },
+];
+
+export const sealedBidAuction: Scenario = {
+  id: "sealed-bid-auction",
+  title: "Sealed-bid auction",
+  description: "Bids are compared under encryption; the winner is revealed publicly while the amounts stay private.",
+  actors,
+  steps: [
+    {
+      action: { type: "createCiphertext", id: "ct_bidAlice", fheType: "euint64", data: "300", owner: alice, contract: auction },
+      note: "Alice submits a sealed bid of 300",
+    },
+    {
+      action: { type: "createCiphertext", id: "ct_bidBob", fheType: "euint64", data: "450", owner: bob, contract: auction },
+      note: "Bob submits a sealed bid of 450",
+    },
+    {
+      action: { type: "createCiphertext", id: "ct_addrAlice", fheType: "eaddress", data: alice, owner: alice, contract: auction },
+      note: "The auction stores Alice's address encrypted",
+    },
+    {
+      action: { type: "createCiphertext", id: "ct_addrBob", fheType: "eaddress", data: bob, owner: bob, contract: auction },
+      note: "The auction stores Bob's address encrypted",
+    },
+    {
+      action: { type: "userDecrypt", ciphertext: "ct_bidBob", user: alice, contract: auction, signer: alice },
+      note: "Alice tries to read Bob's bid during bidding",
+      expect: "denied",
+    },
+    {
+      action: { type: "compute", id: "ct_bobHigher", op: "gt", inputs: ["ct_bidBob", "ct_bidAlice"], caller: auction },
+      note: "FHE.gt(bidBob, bidAlice) → encrypted ebool",
+      expect: "success",
+    },
+    { action: { type: "allowThis", ciphertext: "ct_bobHigher", contract: auction }, note: "FHE.allowThis(bobHigher)" },
+    {
+      action: { type: "compute", id: "ct_winner", op: "select", inputs: ["ct_bobHigher", "ct_addrBob", "ct_addrAlice"], caller: auction },
+      note: "FHE.select(bobHigher, addrBob, addrAlice) picks the winner",
+      expect: "success",
+    },
+    { action: { type: "allowThis", ciphertext: "ct_winner", contract: auction }, note: "FHE.allowThis(winner)" },
+    { action: { type: "beginTx" }, note: "The auction closes in a single transaction" },
+    { action: { type: "allowTransient", ciphertext: "ct_winner", address: gateway }, note: "FHE.allowTransient(winner, gateway)" },
+    {
+      action: { type: "userDecrypt", ciphertext: "ct_winner", user: gateway, contract: auction, signer: gateway },
+      note: "The Gateway may read the winner during the tx",
+      expect: "success",
+    },
+    { action: { type: "commitTx" }, note: "The closing transaction ends, the transient grant is gone" },
+    {
+      action: { type: "userDecrypt", ciphertext: "ct_winner", user: gateway, contract: auction, signer: gateway },
+      note: "After the tx the Gateway has no access left",
+      expect: "denied",
+    },
+    { action: { type: "makePubliclyDecryptable", ciphertext: "ct_winner" }, note: "FHE.makePubliclyDecryptable(winner)" },
+    {
+      action: { type: "publicDecrypt", ciphertext: "ct_winner", requester: carol },
+      note: "Everyone can learn who won",
+      expect: "success",
+    },
+    {
+      action: { type: "publicDecrypt", ciphertext: "ct_bidBob", requester: carol },
+      note: "The winning amount stays private",
+      expect: "denied",
+    },
+  ],
+};
@@ -0,0 +1,61 @@
+import type { ACLEvent, ACLState, ActorKind, Tour } from "../acl";
+
+const creates = (event: ACLEvent) => event.changes.some((c) => c.kind === "create");
+
+const isKind = (state: ACLState, address: string | null, kind: ActorKind) =>
+  state.actors.some((a) => a.address === address && a.kind === kind);
+
+// The "Full Example: Private Token Transfer" from HOW_IT_WORKS.md, built by hand
+export const howItWorksTour: Tour = {
+  id: "how-it-works",
+  title: "Private token transfer",
+  description: "Store a balance, hand it to the Gateway for one transaction, and see who can read it.",
+  steps: [
+    {
+      title: "Alice's balance",
+      body: "Create a ciphertext owned by Alice through the PrivateToken contract: balances[alice] = FHE.asEuint64(1000).",
+      target: "create-ciphertext",
+      waitFor: { types: ["allow"], match: creates },
+      check: ({ state }, event) =>
+        isKind(state, state.ciphertexts.find((c) => c.id === event.ciphertext)?.owner ?? null, "eoa"),
+      retry: "The owner should be a user account such as Alice.",
+    },
+    {
+      title: "Open a transaction",
+      body: "Click \"Begin Tx\". Everything until Commit or Revert now happens in one transaction.",
+      target: "transaction",
+      waitFor: { types: ["tx_begin"] },
+    },
+    {
+      title: "Hand it to the Gateway",
+      body: "Select the balance and call FHE.allowTransient() for the Gateway, as a contract does before asking for a decryption.",
+      target: "grant-panel",
+      waitFor: { types: ["allowTransient"] },
+      check: ({ state }, event) => isKind(state, event.address, "gateway") && state.tx !== null,
+      retry: "Grant it to the Gateway while your transaction is still open.",
+    },
+    {
+      title: "Commit",
+      body: "Click Commit. EIP-1153 transient storage is wiped at the end of the transaction, so the Gateway loses access again.",
+      target: "transaction",
+      waitFor: { types: ["tx_end"], match: (event) => !event.details.includes("(implicit)") },
+      check: ({ state }) => state.ciphertexts.every((c) => c.transientACL.length === 0),
+    },
+    {
+      title: "Mallory tries",
+      body: "In the decryption panel, request a user decryption of the balance as someone who is not on its ACL, such as Mallory.",
+      target: "decryption-panel",
+      waitFor: { types: ["user_decrypt_denied"] },
+    },
+    {
+      title: "Alice reads her balance",
+      body: "Now request it as Alice through the PrivateToken contract. Both are on the ACL, so the KMS re-encrypts it for her.",
+      target: "decryption-panel",
+      waitFor: { types: ["user_decrypt_success"] },
+    },
+    {
+      title: "That's the ACL",
+      body: "Every handle carries its own list of who may use it; contracts, the Gateway and the KMS all check it before acting.",
+    },
+  ],
+};
@@ -0,0 +1,5 @@
+import type { Tour } from "../acl";
+import { howItWorksTour } from "./howItWorks";
+import { tutorialTour } from "./tutorial";
+
+export const builtInTours: Tour[] = [tutorialTour, howItWorksTour];
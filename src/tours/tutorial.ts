@@ -0,0 +1,64 @@
+import type { ACLEvent, Tour } from "../acl";
+
+const creates = (event: ACLEvent) => event.changes.some((c) => c.kind === "create");
+
+// The "Step-by-Step Demo Walkthrough" from TUTORIAL.md
+export const tutorialTour: Tour = {
+  id: "tutorial",
+  title: "Demo walkthrough",
+  description: "Create a ciphertext, grant access three ways and test who may decrypt it.",
+  steps: [
+    {
+      title: "Welcome",
+      body: "The Ciphertext Manager on the left calls the ACL functions; every call shows up in the ACL Events log on the right.",
+      target: "event-log",
+    },
+    {
+      title: "Create a ciphertext",
+      body: "Pick an owner and a contract, then click \"+ Create Ciphertext\". The owner gets FHE.allow() and the contract FHE.allowThis().",
+      target: "create-ciphertext",
+      waitFor: { types: ["allow"], match: creates },
+    },
+    {
+      title: "Select it",
+      body: "Click the new handle in the list. Ciphertext Details then shows its permanent ACL, transient ACL and public flag.",
+      target: "ciphertext-list",
+      until: ({ selectedCipher }) => selectedCipher !== null,
+    },
+    {
+      title: "Grant transient access",
+      body: "Choose the Gateway as grantee and call FHE.allowTransient(). The grant only lives until the transaction ends, so watch the log clear it again.",
+      target: "grant-panel",
+      waitFor: { types: ["allowTransient"] },
+      check: ({ selectedCipher }, event) => event.ciphertext === selectedCipher,
+      retry: "Grant it on the ciphertext you selected.",
+    },
+    {
+      title: "Make it publicly decryptable",
+      body: "Call FHE.makePubliclyDecryptable(). From now on anyone may ask the Gateway for the plaintext.",
+      target: "grant-panel",
+      waitFor: { types: ["makePublic"] },
+      check: ({ state }, event) => state.ciphertexts.some((c) => c.id === event.ciphertext && c.isPublic),
+    },
+    {
+      title: "Test decryption",
+      body: "Request a user or public decryption, or call the isSenderAllowed guard. Green means the ACL let it through, red means it was refused.",
+      target: "decryption-panel",
+      waitFor: {
+        types: [
+          "user_decrypt_success",
+          "user_decrypt_denied",
+          "public_decrypt_success",
+          "public_decrypt_denied",
+          "sender_allowed",
+          "sender_denied",
+        ],
+      },
+    },
+    {
+      title: "Done",
+      body: "Try the Permission Matrix below: each cell sends the request that actor would make for that ciphertext.",
+      target: "permission-matrix",
+    },
+  ],
+};